@@ -0,0 +1,295 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { basename, extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { emptyResponseError, isSafetyFinish, withRetry } from "../src/errors";
+import { parseStructuredOutput } from "../src/json-schema";
+import { createProvider, PROVIDERS, type GenerationProvider, type GenerationRequest, type Modality, type SafetyRating } from "../src/providers";
+import { runPipeline } from "../src/pipeline";
+import { buildRequest, type PromptInputs, type PromptMessage, type RequestOptions } from "../src/request-builder";
+import { parseTemplate } from "../src/template-schema";
+import type { PipelineStep, Template } from "../src/types";
+
+const USAGE = `Runs a template against every image in a folder and writes one output per image.
+
+Usage: npm run cli -- --template <file> --images <dir> --out <dir> [options]
+
+  --template <file>    Template exported from the app (.json), or a module exporting \`template\` (.ts)
+  --images <dir>       Folder of input images (png, jpg, webp, gif)
+  --out <dir>          Folder for the outputs and run.json; created if missing
+  --modality <m>       image or text; defaults to the template's modality, else image. Ignored by templates with pipeline steps
+  --prompt <text>      Text sent with each input image
+  --var <name=value>   Template variable value; repeat for more
+  --provider <id>      ${PROVIDERS.map((provider) => provider.id).join(", ")} (default: gemini)
+  --model <name>       Model name for the modality; defaults to the template's model setting, else the provider's default
+  --base-url <url>     Endpoint for the openai-compatible provider
+  --retries <n>        Retries for quota, rate limit and network errors (default: 3)
+
+Templates with pipeline steps run every step for each image, writing <image>.<step>[.<n>] outputs.
+The API key is read from the SEMCAD_API_KEY environment variable.
+Input images are sent as they are: the app's resizing and EXIF handling need a browser canvas.`;
+
+const IMAGE_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+};
+
+interface InputImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+interface RunResult {
+  input: string;
+  outputs: string[];
+  error?: string;
+}
+
+/** A finished generation: the files written, and what later pipeline steps can use */
+interface GenerationResult {
+  files: string[];
+  text: string;
+  image?: InputImage;
+  structured?: { value?: unknown };
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      template: { type: "string" },
+      images: { type: "string" },
+      out: { type: "string" },
+      modality: { type: "string" },
+      prompt: { type: "string", default: "" },
+      var: { type: "string", multiple: true, default: [] },
+      provider: { type: "string", default: "gemini" },
+      model: { type: "string" },
+      "base-url": { type: "string", default: "" },
+      retries: { type: "string", default: "3" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help || !values.template || !values.images || !values.out) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+  if (!/^\d+$/.test(values.retries)) throw new Error(`--retries must be a non-negative integer, got "${values.retries}".`);
+
+  const template = await loadTemplate(values.template);
+  const modalityOption = values.modality ?? template.modality ?? "image";
+  if (modalityOption !== "image" && modalityOption !== "text") throw new Error("--modality must be image or text.");
+  const modality: Modality = modalityOption;
+
+  const provider = createProvider({ providerId: values.provider, apiKey: process.env.SEMCAD_API_KEY ?? "", baseUrl: values["base-url"] });
+  const templateModel = (stepModality: Modality) => (stepModality === "image" ? template.settings?.imageModel : template.settings?.textModel);
+  const model = values.model || templateModel(modality) || provider.defaultModels[modality];
+  const config = template.settings?.config ?? {};
+  const maxRetries = Number(values.retries);
+
+  const variableValues = Object.fromEntries((template.variables ?? []).map((variable) => [variable.name, variable.default ?? ""]));
+  for (const assignment of values.var) {
+    const separator = assignment.indexOf("=");
+    if (separator < 1) throw new Error(`--var must look like name=value, got "${assignment}".`);
+    variableValues[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+  }
+
+  const inputs = (await readdir(values.images)).filter((file) => IMAGE_TYPES[extname(file).toLowerCase()]).sort();
+  if (inputs.length === 0) throw new Error(`No images found in ${values.images}.`);
+  await mkdir(values.out, { recursive: true });
+
+  const templateMessages = template.messages
+    .filter((message) => message.role !== "system")
+    .map((message) => ({
+      role: message.role as PromptMessage<InputImage>["role"],
+      text: message.text,
+      images: (message.images ?? (message.image ? [message.image] : [])).map(({ dataUrl }) => dataUrlToImage(dataUrl)),
+    }));
+  const systemMessage = template.messages.find((message) => message.role === "system")?.text ?? "";
+
+  const results: RunResult[] = [];
+  for (const [index, file] of inputs.entries()) {
+    const name = basename(file, extname(file));
+    console.log(`[${index + 1}/${inputs.length}] ${file}`);
+
+    try {
+      const image: InputImage = { data: await readFile(join(values.images, file)), mimeType: IMAGE_TYPES[extname(file).toLowerCase()] };
+      const messages = [...templateMessages, { role: "user" as const, text: values.prompt, images: [image] }];
+      const inputs = { systemMessage, messages, variableValues, responseSchema: template.responseSchema };
+      const generateWithRetry = (request: GenerationRequest, basePath: string) =>
+        withRetry(() => generate(provider, request, basePath), {
+          maxRetries,
+          onRetry: (error, attempt, delayMs) =>
+            console.warn(`  ${error.message} Retry ${attempt} of ${maxRetries} in ${Math.round(delayMs / 1000)}s.`),
+        });
+
+      if (template.steps?.length) {
+        const requestOptions = (stepModality: Modality): RequestOptions => ({
+          modality: stepModality,
+          model: stepModality === modality ? model : templateModel(stepModality) || provider.defaultModels[stepModality],
+          config,
+        });
+        results.push({ input: file, ...(await runSteps(template.steps, inputs, requestOptions, generateWithRetry, join(values.out, name))) });
+        continue;
+      }
+
+      const request = await buildRequest(inputs, { modality, model, config }, encodeImage);
+      const { files } = await generateWithRetry(request, join(values.out, name));
+      results.push({ input: file, outputs: files });
+    } catch (error) {
+      console.error(`  Failed: ${(error as Error).message}`);
+      results.push({ input: file, outputs: [], error: (error as Error).message });
+    }
+  }
+
+  const run = {
+    template: values.template,
+    modality,
+    provider: values.provider,
+    model,
+    variableValues,
+    finishedAt: new Date().toISOString(),
+    results,
+  };
+  await writeFile(join(values.out, "run.json"), JSON.stringify(run, null, 2));
+
+  const failed = results.filter((result) => result.error).length;
+  console.log(`Done: ${results.length - failed} succeeded, ${failed} failed. See ${join(values.out, "run.json")}.`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+/**
+ * @param {string} path A .json export, or a module with a `template` export such as the built-in templates
+ * @returns {Promise<Template>}
+ */
+async function loadTemplate(path: string): Promise<Template> {
+  if (extname(path).toLowerCase() === ".json") {
+    return parseTemplate(JSON.parse(await readFile(path, "utf8")));
+  }
+  const module = await import(pathToFileURL(resolve(path)).href);
+  return parseTemplate(module.template);
+}
+
+/**
+ * Runs the template's pipeline steps for one input image, each step sending the message items followed by its prompt.
+ * A failed generation ends its branch; the other branches keep going.
+ * @param {PipelineStep[]} steps
+ * @param {PromptInputs<InputImage>} inputs The template messages and the input image
+ * @param {(modality: Modality) => RequestOptions} requestOptions Model and config for a step's modality
+ * @param {(request: GenerationRequest, basePath: string) => Promise<GenerationResult>} generateWithRetry
+ * @param {string} basePath Output path for the input image, without extension
+ * @returns {Promise<Omit<RunResult, "input">>} The files written by all steps, and the errors of failed generations.
+ */
+async function runSteps(
+  steps: PipelineStep[],
+  inputs: PromptInputs<InputImage>,
+  requestOptions: (modality: Modality) => RequestOptions,
+  generateWithRetry: (request: GenerationRequest, basePath: string) => Promise<GenerationResult>,
+  basePath: string
+): Promise<Omit<RunResult, "input">> {
+  const outputs: string[] = [];
+  const errors: string[] = [];
+
+  await runPipeline<GenerationResult>(steps, async (step, jobs) => {
+    const results: (GenerationResult | undefined)[] = [];
+    for (const [index, job] of jobs.entries()) {
+      const label = jobs.length > 1 ? `${step.id}.${index + 1}` : step.id;
+      console.log(`  Step ${label}`);
+      try {
+        const images = (step.images ?? []).flatMap((stepId) => job.outputs[stepId]?.image ?? []);
+        const request = await buildRequest(
+          {
+            systemMessage: inputs.systemMessage,
+            messages: [...inputs.messages, { role: "user", text: step.prompt, images }],
+            variableValues: { ...inputs.variableValues, ...job.variableValues },
+            responseSchema: step.modality === "text" ? step.responseSchema : undefined,
+          },
+          requestOptions(step.modality),
+          encodeImage
+        );
+        const result = await generateWithRetry(request, `${basePath}.${label}`);
+        outputs.push(...result.files);
+        results.push(result);
+      } catch (error) {
+        console.error(`  Step ${label} failed: ${(error as Error).message}`);
+        errors.push(`${label}: ${(error as Error).message}`);
+        results.push(undefined);
+      }
+    }
+    return results;
+  });
+
+  return errors.length > 0 ? { outputs, error: errors.join("\n") } : { outputs };
+}
+
+/**
+ * Streams one generation and writes its result next to `basePath`: the first image with any text as Markdown,
+ * or the text, as JSON when a response schema was requested.
+ * @param {GenerationProvider} provider
+ * @param {GenerationRequest} request
+ * @param {string} basePath Output path without extension
+ * @returns {Promise<GenerationResult>}
+ */
+async function generate(provider: GenerationProvider, request: GenerationRequest, basePath: string): Promise<GenerationResult> {
+  const images: { data: string; mimeType: string }[] = [];
+  let text = "";
+  const finish: { finishReason?: string; safetyRatings?: SafetyRating[]; blockReason?: string } = {};
+
+  for await (const chunk of provider.generateStream(request)) {
+    if (chunk.image) images.push(chunk.image);
+    if (chunk.text) text += chunk.text;
+    if (chunk.finishReason !== undefined) finish.finishReason = chunk.finishReason;
+    if (chunk.safetyRatings !== undefined) finish.safetyRatings = chunk.safetyRatings;
+    if (chunk.blockReason !== undefined) finish.blockReason = chunk.blockReason;
+  }
+
+  const written: string[] = [];
+  const write = async (extension: string, data: string | Buffer) => {
+    await writeFile(basePath + extension, data);
+    written.push(basename(basePath + extension));
+  };
+
+  if (request.modality === "image") {
+    if (images.length === 0) throw emptyResponseError(finish, text);
+    const image = { data: Buffer.from(images[0].data, "base64"), mimeType: images[0].mimeType };
+    await write(EXTENSIONS[image.mimeType] ?? ".png", image.data);
+    if (text) await write(".md", text);
+    return { files: written, text, image };
+  }
+
+  if (!text || finish.blockReason || isSafetyFinish(finish.finishReason)) throw emptyResponseError(finish, text);
+  if (request.responseSchema) {
+    const structured = parseStructuredOutput(text, request.responseSchema);
+    structured.errors.forEach((error) => console.warn(`  ${error}`));
+    await write(".json", structured.value !== undefined ? JSON.stringify(structured.value, null, 2) : text);
+    return { files: written, text, structured };
+  }
+  await write(".md", text);
+  return { files: written, text };
+}
+
+async function encodeImage(image: InputImage) {
+  return [{ inlineData: { data: image.data.toString("base64"), mimeType: image.mimeType } }];
+}
+
+function dataUrlToImage(dataUrl: string): InputImage {
+  const [header, data] = dataUrl.split(",");
+  const bytes = header.endsWith(";base64") ? Buffer.from(data, "base64") : Buffer.from(decodeURIComponent(data));
+  return { data: bytes, mimeType: header.slice("data:".length).split(";")[0] };
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,209 @@
+import { decodeImage, type ImageTransform } from "./image-processing";
+import type { AnnotationShape, ImageAnnotation, Point } from "./types";
+
+/**
+ * Line width that reads well at the image's size, also used to size arrow heads and labels.
+ * @param {number} width
+ * @param {number} height
+ * @returns {number}
+ */
+export function annotationLineWidth(width: number, height: number): number {
+  return Math.max(2, Math.round(Math.max(width, height) / 200));
+}
+
+/**
+ * Draws the shapes in image pixels. Transform the context first to draw them at another scale.
+ * In mask mode everything is drawn solid white and widened, so the marks cover the region they point at, and labels are
+ * left out as they go into the instruction instead.
+ * @param {CanvasRenderingContext2D} context
+ * @param {AnnotationShape[]} shapes
+ * @param {number} lineWidth
+ * @param {boolean} [mask]
+ */
+export function drawAnnotations(context: CanvasRenderingContext2D, shapes: AnnotationShape[], lineWidth: number, mask = false) {
+  context.save();
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  context.lineWidth = mask ? lineWidth * 4 : lineWidth;
+  const headLength = lineWidth * 5;
+
+  for (const shape of shapes) {
+    context.strokeStyle = mask ? "#fff" : shape.color;
+    context.fillStyle = mask ? "#fff" : shape.color;
+
+    switch (shape.kind) {
+      case "stroke": {
+        context.beginPath();
+        shape.points.forEach((point, index) => (index === 0 ? context.moveTo(point.x, point.y) : context.lineTo(point.x, point.y)));
+        // A single point still leaves a dot
+        if (shape.points.length === 1) context.lineTo(shape.points[0].x + 0.1, shape.points[0].y);
+        context.stroke();
+        break;
+      }
+      case "arrow": {
+        if (mask) {
+          // Only what the arrow points at is part of the region
+          context.beginPath();
+          context.arc(shape.to.x, shape.to.y, headLength * 2, 0, Math.PI * 2);
+          context.fill();
+          break;
+        }
+        const angle = Math.atan2(shape.to.y - shape.from.y, shape.to.x - shape.from.x);
+        const headPoint = (offset: number): Point => ({
+          x: shape.to.x - headLength * Math.cos(angle + offset),
+          y: shape.to.y - headLength * Math.sin(angle + offset),
+        });
+        context.beginPath();
+        context.moveTo(shape.from.x, shape.from.y);
+        context.lineTo(shape.to.x, shape.to.y);
+        context.moveTo(headPoint(Math.PI / 6).x, headPoint(Math.PI / 6).y);
+        context.lineTo(shape.to.x, shape.to.y);
+        context.lineTo(headPoint(-Math.PI / 6).x, headPoint(-Math.PI / 6).y);
+        context.stroke();
+        break;
+      }
+      case "rect": {
+        const x = Math.min(shape.from.x, shape.to.x);
+        const y = Math.min(shape.from.y, shape.to.y);
+        const width = Math.abs(shape.to.x - shape.from.x);
+        const height = Math.abs(shape.to.y - shape.from.y);
+        if (mask) {
+          context.fillRect(x, y, width, height);
+        } else {
+          context.strokeRect(x, y, width, height);
+        }
+        break;
+      }
+      case "text": {
+        if (mask) break;
+        context.font = `bold ${lineWidth * 8}px sans-serif`;
+        context.textBaseline = "top";
+        // A white outline keeps the label readable on any background
+        context.strokeStyle = "#fff";
+        context.strokeText(shape.text, shape.at.x, shape.at.y);
+        context.fillText(shape.text, shape.at.x, shape.at.y);
+        break;
+      }
+    }
+  }
+
+  context.restore();
+}
+
+/**
+ * Renders the image with the annotation drawn on it, as PNG.
+ * @param {Blob} blob
+ * @param {ImageAnnotation} annotation
+ * @returns {Promise<Blob>}
+ */
+export function renderComposite(blob: Blob, annotation: ImageAnnotation): Promise<Blob> {
+  return renderAnnotation(blob, annotation, false);
+}
+
+/**
+ * Renders the marked region as white on black, at the image's size, as PNG.
+ * @param {Blob} blob
+ * @param {ImageAnnotation} annotation
+ * @returns {Promise<Blob>}
+ */
+export function renderMask(blob: Blob, annotation: ImageAnnotation): Promise<Blob> {
+  return renderAnnotation(blob, annotation, true);
+}
+
+/**
+ * Moves the marks along with an image that is rotated and cropped, so they stay on the same content.
+ * Shapes left entirely outside the crop are dropped.
+ * @param {ImageAnnotation} annotation
+ * @param {ImageTransform} transform
+ * @param {{ width: number; height: number }} size The image before the transform
+ * @param {number} scale How much the cropped image was scaled down
+ * @returns {ImageAnnotation | undefined} Undefined when no shape is left.
+ */
+export function transformAnnotation(
+  annotation: ImageAnnotation,
+  transform: ImageTransform,
+  size: { width: number; height: number },
+  scale: number
+): ImageAnnotation | undefined {
+  const rotation = ((transform.rotation % 4) + 4) % 4;
+  const rotated = rotation % 2 === 0 ? size : { width: size.height, height: size.width };
+  const crop = transform.crop ?? { x: 0, y: 0, ...rotated };
+
+  const movePoint = ({ x, y }: Point): Point => {
+    // Each clockwise quarter turn maps (x, y) in a w × h image to (h - y, x)
+    let [width, height] = [size.width, size.height];
+    for (let turn = 0; turn < rotation; turn++) {
+      [x, y] = [height - y, x];
+      [width, height] = [height, width];
+    }
+    return { x: (x - crop.x) * scale, y: (y - crop.y) * scale };
+  };
+
+  const shapes = annotation.shapes
+    .map((shape): AnnotationShape => {
+      switch (shape.kind) {
+        case "stroke":
+          return { ...shape, points: shape.points.map(movePoint) };
+        case "arrow":
+        case "rect":
+          return { ...shape, from: movePoint(shape.from), to: movePoint(shape.to) };
+        case "text":
+          return { ...shape, at: movePoint(shape.at) };
+      }
+    })
+    .filter((shape) => {
+      const points = shapePoints(shape);
+      const [left, right] = [Math.min(...points.map((p) => p.x)), Math.max(...points.map((p) => p.x))];
+      const [top, bottom] = [Math.min(...points.map((p) => p.y)), Math.max(...points.map((p) => p.y))];
+      return right >= 0 && bottom >= 0 && left <= crop.width * scale && top <= crop.height * scale;
+    });
+
+  return shapes.length > 0 ? { ...annotation, shapes } : undefined;
+}
+
+function shapePoints(shape: AnnotationShape): Point[] {
+  switch (shape.kind) {
+    case "stroke":
+      return shape.points;
+    case "arrow":
+    case "rect":
+      return [shape.from, shape.to];
+    case "text":
+      return [shape.at];
+  }
+}
+
+/**
+ * The instruction sent between the original image and its mask, including any text labels as notes.
+ * @param {ImageAnnotation} annotation
+ * @returns {string}
+ */
+export function maskInstruction(annotation: ImageAnnotation): string {
+  const labels = annotation.shapes.flatMap((shape) => (shape.kind === "text" ? [shape.text] : []));
+  const notes = labels.length > 0 ? ` Notes on the marked region: ${labels.map((label) => `"${label}"`).join("; ")}.` : "";
+  return `The next image is a mask for the image above. Edit only the region marked in white in the mask and keep everything else unchanged.${notes} Mask:`;
+}
+
+async function renderAnnotation(blob: Blob, annotation: ImageAnnotation, mask: boolean): Promise<Blob> {
+  const bitmap = await decodeImage(blob);
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const context = canvas.getContext("2d")!;
+
+    if (mask) {
+      context.fillStyle = "#000";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    } else {
+      context.drawImage(bitmap, 0, 0);
+    }
+    drawAnnotations(context, annotation.shapes, annotationLineWidth(canvas.width, canvas.height), mask);
+
+    return await new Promise((resolve, reject) =>
+      canvas.toBlob((result) => (result ? resolve(result) : reject(new Error("Could not encode the annotated image."))), "image/png")
+    );
+  } finally {
+    bitmap.close();
+  }
+}
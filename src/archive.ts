@@ -0,0 +1,65 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import type { GenerationConfig, Modality } from "./providers";
+import type { MessageRole } from "./types";
+
+export const MANIFEST_FILE = "manifest.json";
+
+/** One exported output, as listed in manifest.json */
+export interface ArchiveEntry {
+  /** Path of the output's image or Markdown file in the archive */
+  file: string;
+  modality: Modality;
+  /** The user turns of the request, with variables filled in */
+  prompt: string;
+  systemMessage: string;
+  messages: { role: MessageRole; text: string }[];
+  provider?: string;
+  model?: string;
+  config?: GenerationConfig;
+  timestamp?: number;
+  /** Text returned alongside an image */
+  text?: string;
+  rating?: number;
+  tags?: string[];
+  favorite?: boolean;
+  notes?: string;
+}
+
+export interface ArchiveManifest {
+  version: 1;
+  exportedAt: number;
+  outputs: ArchiveEntry[];
+}
+
+/**
+ * Zips the manifest and output files. Images are stored without compression, as they are compressed already.
+ * @param {ArchiveManifest} manifest
+ * @param {Record<string, Uint8Array>} files By path, matching the manifest entries
+ * @returns {Uint8Array} The ZIP file.
+ */
+export function createArchive(manifest: ArchiveManifest, files: Record<string, Uint8Array>): Uint8Array {
+  const zippable: Zippable = { [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)) };
+  for (const [path, data] of Object.entries(files)) {
+    zippable[path] = /\.(png|jpe?g)$/i.test(path) ? [data, { level: 0 }] : data;
+  }
+  return zipSync(zippable);
+}
+
+/**
+ * Unzips an archive made by createArchive.
+ * @param {Uint8Array} data
+ * @returns {{ manifest: ArchiveManifest; files: Record<string, Uint8Array> }}
+ * @throws {Error} If the file is not a ZIP or has no valid manifest.
+ */
+export function readArchive(data: Uint8Array): { manifest: ArchiveManifest; files: Record<string, Uint8Array> } {
+  const files = unzipSync(data);
+  if (!files[MANIFEST_FILE]) throw new Error(`The archive has no ${MANIFEST_FILE}.`);
+
+  const manifest = JSON.parse(strFromU8(files[MANIFEST_FILE]));
+  if (!Array.isArray(manifest?.outputs)) throw new Error(`${MANIFEST_FILE} must have an outputs array.`);
+  manifest.outputs.forEach((entry: unknown, index: number) => {
+    if (typeof (entry as ArchiveEntry)?.file !== "string") throw new Error(`outputs[${index}].file must be a string.`);
+  });
+
+  return { manifest, files };
+}
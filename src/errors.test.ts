@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { classifyError, emptyResponseError, GenerationError, HttpStatusError, withRetry } from "./errors";
+
+describe("classifyError", () => {
+  it.each([
+    [new HttpStatusError("Unauthorized", 401), "invalid-key"],
+    [new Error("API key not valid. Please pass a valid API key."), "invalid-key"],
+    [new HttpStatusError("Too many requests", 429), "quota"],
+    [new Error("RESOURCE_EXHAUSTED"), "quota"],
+    [new HttpStatusError("Internal error", 500), "network"],
+    [new TypeError("Failed to fetch"), "network"],
+    [new HttpStatusError("Bad request", 400), "unknown"],
+    ["not an error", "unknown"],
+  ])("classifies %s as %s", (error, kind) => {
+    expect(classifyError(error).kind).toBe(kind);
+  });
+
+  it("keeps the message and status", () => {
+    const error = classifyError(new HttpStatusError("Too many requests", 429));
+
+    expect(error.message).toBe("Too many requests");
+    expect(error.status).toBe(429);
+  });
+
+  it("reads the retry delay suggested by the server, capped at 30 seconds", () => {
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED "retryDelay": "12s"')).retryAfterMs).toBe(12_000);
+    expect(classifyError(new Error('RESOURCE_EXHAUSTED "retryDelay": "90s"')).retryAfterMs).toBe(30_000);
+  });
+
+  it("returns generation errors as they are", () => {
+    const error = new GenerationError("safety", "Blocked");
+
+    expect(classifyError(error)).toBe(error);
+  });
+
+  it("treats only quota and network errors as transient", () => {
+    expect(new GenerationError("quota", "").isTransient).toBe(true);
+    expect(new GenerationError("network", "").isTransient).toBe(true);
+    expect(new GenerationError("invalid-key", "").isTransient).toBe(false);
+  });
+});
+
+describe("emptyResponseError", () => {
+  it("reports a blocked prompt as a safety error", () => {
+    expect(emptyResponseError({ blockReason: "OTHER" }, "")).toMatchObject({ kind: "safety", message: "The prompt was blocked (OTHER)." });
+  });
+
+  it("reports a safety finish as a safety error", () => {
+    expect(emptyResponseError({ finishReason: "IMAGE_SAFETY" }, "").kind).toBe("safety");
+  });
+
+  it("reports other finishes as empty, using the model's text when there is any", () => {
+    expect(emptyResponseError({ finishReason: "MAX_TOKENS" }, "").message).toBe("The model returned an empty response (finish reason: MAX_TOKENS).");
+    expect(emptyResponseError({ finishReason: "STOP" }, "I cannot draw that.")).toMatchObject({ kind: "empty", message: "I cannot draw that." });
+  });
+});
+
+describe("withRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns the result of the first successful attempt", async () => {
+    const task = vi.fn().mockRejectedValueOnce(new HttpStatusError("Too many requests", 429)).mockResolvedValueOnce("done");
+    const onRetry = vi.fn();
+
+    const result = withRetry(task, { maxRetries: 3, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("done");
+    expect(task.mock.calls).toEqual([[1], [2]]);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ kind: "quota" }), 1, expect.any(Number));
+  });
+
+  it("backs off exponentially, with jitter up to half the delay", async () => {
+    const task = vi.fn().mockRejectedValue(new TypeError("Failed to fetch"));
+    const delays: number[] = [];
+
+    const result = withRetry(task, { maxRetries: 3, onRetry: (_error, _attempt, delayMs) => delays.push(delayMs) });
+    const assertion = expect(result).rejects.toMatchObject({ kind: "network" });
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(task).toHaveBeenCalledTimes(4);
+    [1000, 2000, 4000].forEach((limit, index) => {
+      expect(delays[index]).toBeGreaterThanOrEqual(limit / 2);
+      expect(delays[index]).toBeLessThanOrEqual(limit);
+    });
+  });
+
+  it("waits as long as the server suggests", async () => {
+    const task = vi.fn().mockRejectedValueOnce(new Error('RESOURCE_EXHAUSTED "retryDelay": "5s"')).mockResolvedValueOnce("done");
+
+    const result = withRetry(task, { maxRetries: 1 });
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe("done");
+  });
+
+  it("does not retry errors that are not transient", async () => {
+    const task = vi.fn().mockRejectedValue(new HttpStatusError("Unauthorized", 401));
+
+    await expect(withRetry(task, { maxRetries: 3 })).rejects.toMatchObject({ kind: "invalid-key", status: 401 });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("removes its abort listener once the wait is over", async () => {
+    const controller = new AbortController();
+    const removeEventListener = vi.spyOn(controller.signal, "removeEventListener");
+    const task = vi.fn().mockRejectedValueOnce(new HttpStatusError("Too many requests", 429)).mockResolvedValueOnce("done");
+
+    const result = withRetry(task, { maxRetries: 1, signal: controller.signal });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe("done");
+    expect(removeEventListener).toHaveBeenCalledWith("abort", expect.any(Function));
+  });
+
+  it("stops waiting when aborted, rejecting with the abort reason", async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new HttpStatusError("Too many requests", 429));
+
+    const result = withRetry(task, { maxRetries: 3, signal: controller.signal });
+    const assertion = expect(result).rejects.toBe("cancelled");
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort("cancelled");
+    await assertion;
+
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,152 @@
+import type { SafetyRating } from "./providers";
+
+export type GenerationErrorKind = "invalid-key" | "quota" | "safety" | "network" | "empty" | "unknown";
+
+/** Finish reasons (Gemini and OpenAI) that mean the response was withheld by a content filter */
+const SAFETY_FINISH_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "IMAGE_SAFETY", "IMAGE_PROHIBITED_CONTENT", "content_filter"];
+
+/** An HTTP error response from a provider, carrying its status code like the Gemini SDK's ApiError. */
+export class HttpStatusError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "HttpStatusError";
+    this.status = status;
+  }
+}
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  status?: number;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  /** Server-suggested wait before retrying, if any */
+  retryAfterMs?: number;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    details: { status?: number; finishReason?: string; safetyRatings?: SafetyRating[]; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = "GenerationError";
+    this.kind = kind;
+    this.status = details.status;
+    this.finishReason = details.finishReason;
+    this.safetyRatings = details.safetyRatings;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /** Quota and network errors usually go away on their own, so they are worth retrying. */
+  get isTransient(): boolean {
+    return this.kind === "quota" || this.kind === "network";
+  }
+}
+
+/**
+ * Maps any error thrown while generating to a GenerationError, based on HTTP status and message.
+ * @param {unknown} error
+ * @returns {GenerationError}
+ */
+export function classifyError(error: unknown): GenerationError {
+  if (error instanceof GenerationError) return error;
+
+  const message = (error as Error)?.message || "An unknown error occurred.";
+  const status = typeof (error as { status?: unknown })?.status === "number" ? (error as { status: number }).status : undefined;
+
+  if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|invalid api key|incorrect api key/i.test(message)) {
+    return new GenerationError("invalid-key", message, { status });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    return new GenerationError("quota", message, { status, retryAfterMs: parseRetryDelay(message) });
+  }
+  if ((status !== undefined && status >= 500) || /failed to fetch|fetch failed|network ?error|load failed|UNAVAILABLE/i.test(message)) {
+    return new GenerationError("network", message, { status });
+  }
+  return new GenerationError("unknown", message, { status });
+}
+
+/**
+ * Builds the error for a response that finished without the expected content.
+ * @param {{ finishReason?: string; safetyRatings?: SafetyRating[]; blockReason?: string }} finish
+ * @param {string} text Any text the model returned instead
+ * @returns {GenerationError}
+ */
+export function emptyResponseError(
+  finish: { finishReason?: string; safetyRatings?: SafetyRating[]; blockReason?: string },
+  text: string
+): GenerationError {
+  if (finish.blockReason) {
+    return new GenerationError("safety", `The prompt was blocked (${finish.blockReason}).`, {
+      finishReason: finish.blockReason,
+      safetyRatings: finish.safetyRatings,
+    });
+  }
+  if (isSafetyFinish(finish.finishReason)) {
+    return new GenerationError("safety", text || "The response was withheld by safety filters.", finish);
+  }
+  const reason = finish.finishReason && finish.finishReason !== "STOP" ? ` (finish reason: ${finish.finishReason})` : "";
+  return new GenerationError("empty", text || `The model returned an empty response${reason}.`, finish);
+}
+
+export function isSafetyFinish(finishReason: string | undefined): boolean {
+  return finishReason !== undefined && SAFETY_FINISH_REASONS.includes(finishReason);
+}
+
+/**
+ * Calls `task` until it succeeds, retrying transient errors with exponential backoff and jitter.
+ * @param {(attempt: number) => Promise<T>} task Receives the attempt number, starting at 1
+ * @param {{ maxRetries: number; signal?: AbortSignal; onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void }} options
+ * @returns {Promise<T>}
+ * @throws {GenerationError} The last error, classified, once it is not transient or retries run out.
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  options: { maxRetries: number; signal?: AbortSignal; onRetry?: (error: GenerationError, attempt: number, delayMs: number) => void }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+
+      const classified = classifyError(error);
+      if (!classified.isTransient || attempt > options.maxRetries) throw classified;
+
+      const delayMs = classified.retryAfterMs ?? backoffDelay(attempt);
+      options.onRetry?.(classified, attempt, delayMs);
+      await sleep(delayMs, options.signal);
+    }
+  }
+}
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+
+function backoffDelay(attempt: number): number {
+  const exponential = Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS);
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/** Reads Gemini's RetryInfo hint, e.g. "retryDelay": "12s", from an error message. */
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.min(parseFloat(match[1]) * 1000, MAX_DELAY_MS) : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal!.reason);
+    };
+    // The signal outlives the wait across retries, so the listener must not stay behind
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { UndoHistory } from "./history";
+import type { HistoryEntry, WorkbenchState } from "./types";
+
+const state = (systemMessage: string): WorkbenchState => ({
+  systemMessage,
+  responseSchema: "",
+  messages: [],
+  variables: [],
+  variableValues: {},
+});
+
+const entry = (label: string, coalesceKey?: string): HistoryEntry => ({ label, state: state(label), coalesceKey });
+
+describe("UndoHistory", () => {
+  it("undoes changes in reverse order, remembering the current state for redo", () => {
+    const history = new UndoHistory();
+    history.record(entry("a"));
+    history.record(entry("b"));
+
+    expect(history.undo(state("current"))?.state).toEqual(state("b"));
+    expect(history.undo(state("b"))?.state).toEqual(state("a"));
+    expect(history.undo(state("a"))).toBeUndefined();
+
+    expect(history.redo(state("a"))?.state).toEqual(state("b"));
+    expect(history.redo(state("b"))?.state).toEqual(state("current"));
+    expect(history.nextRedo).toBeUndefined();
+  });
+
+  it("coalesces consecutive changes with the same key into the first one", () => {
+    const history = new UndoHistory();
+
+    expect(history.record(entry("typing", "message:1"))).toEqual({ added: true, dropped: [] });
+    expect(history.record(entry("more typing", "message:1"))).toEqual({ added: false, dropped: [] });
+    expect(history.record(entry("other field", "message:2")).added).toBe(true);
+    expect(history.undoStack.map((e) => e.label)).toEqual(["typing", "other field"]);
+  });
+
+  it("does not coalesce with an entry that was undone and redone", () => {
+    const history = new UndoHistory();
+    history.record(entry("typing", "message:1"));
+    history.undo(state("current"));
+    history.redo(state("typing"));
+
+    expect(history.record(entry("more typing", "message:1")).added).toBe(true);
+  });
+
+  it("clears the redo stack on a new change, returning the dropped entries", () => {
+    const history = new UndoHistory();
+    history.record(entry("a"));
+    history.undo(state("current"));
+
+    const { added, dropped } = history.record(entry("b"));
+
+    expect(added).toBe(true);
+    expect(dropped.map((e) => e.label)).toEqual(["a"]);
+    expect(history.nextRedo).toBeUndefined();
+  });
+
+  it("drops the oldest entries beyond the limit", () => {
+    const history = new UndoHistory();
+    for (let i = 0; i < UndoHistory.LIMIT; i++) history.record(entry(`${i}`));
+
+    const { dropped } = history.record(entry("new"));
+
+    expect(dropped.map((e) => e.label)).toEqual(["0"]);
+    expect(history.undoStack).toHaveLength(UndoHistory.LIMIT);
+    expect(history.nextUndo?.label).toBe("new");
+  });
+});
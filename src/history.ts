@@ -0,0 +1,67 @@
+import type { HistoryEntry, WorkbenchState } from "./types";
+
+/**
+ * Undo and redo stacks of workbench snapshots. Each entry on the undo stack holds the state before a change;
+ * undoing it moves the current state onto the redo stack, and redoing moves it back.
+ */
+export class UndoHistory {
+  /** Oldest entries are dropped beyond this many */
+  static LIMIT = 50;
+
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+
+  constructor(undoStack: HistoryEntry[] = [], redoStack: HistoryEntry[] = []) {
+    this.undoStack = undoStack;
+    this.redoStack = redoStack;
+  }
+
+  get nextUndo(): HistoryEntry | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  get nextRedo(): HistoryEntry | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /**
+   * Adds an entry for a change that is about to be made, and clears the redo stack.
+   * Skipped when it continues the previous change, i.e. has the same coalesceKey.
+   * @param {HistoryEntry} entry
+   * @returns {{ added: boolean; dropped: HistoryEntry[] }} Whether the stacks changed, and the entries that are no longer
+   * reachable, so their deleted outputs can be cleaned up.
+   */
+  record(entry: HistoryEntry): { added: boolean; dropped: HistoryEntry[] } {
+    if (entry.coalesceKey && this.redoStack.length === 0 && this.nextUndo?.coalesceKey === entry.coalesceKey) {
+      return { added: false, dropped: [] };
+    }
+
+    const dropped = this.redoStack;
+    this.redoStack = [];
+    this.undoStack.push(entry);
+    dropped.push(...this.undoStack.splice(0, Math.max(this.undoStack.length - UndoHistory.LIMIT, 0)));
+    return { added: true, dropped };
+  }
+
+  /**
+   * Takes the latest change off the undo stack, remembering the current state for redo.
+   * @param {WorkbenchState} current
+   * @returns {HistoryEntry | undefined} The entry whose state should be restored.
+   */
+  undo(current: WorkbenchState): HistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    if (entry) this.redoStack.push({ ...entry, state: current, coalesceKey: undefined });
+    return entry;
+  }
+
+  /**
+   * Takes the latest undone change off the redo stack, remembering the current state for undo.
+   * @param {WorkbenchState} current
+   * @returns {HistoryEntry | undefined} The entry whose state should be restored.
+   */
+  redo(current: WorkbenchState): HistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    if (entry) this.undoStack.push({ ...entry, state: current, coalesceKey: undefined });
+    return entry;
+  }
+}
@@ -0,0 +1,92 @@
+import type { ImagePreprocessing } from "./types";
+
+export const DEFAULT_IMAGE_PREPROCESSING: ImagePreprocessing = {
+  maxDimension: 2048,
+  format: "original",
+  quality: 0.9,
+};
+
+/** Formats canvas can encode in every browser; others (e.g. GIF, HEIC) are re-encoded as PNG when the format is "original" */
+const ENCODABLE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageTransform {
+  /** Clockwise quarter turns, 0 to 3 */
+  rotation: number;
+  /** In pixels of the rotated image; the whole image when absent */
+  crop?: CropRect;
+}
+
+/**
+ * Decodes an image upright, applying its EXIF orientation.
+ * @param {Blob} blob
+ * @returns {Promise<ImageBitmap>} Close it when done.
+ */
+export function decodeImage(blob: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(blob, { imageOrientation: "from-image" });
+}
+
+/**
+ * Size of the image after the given quarter turns.
+ * @param {ImageBitmap} bitmap
+ * @param {number} rotation
+ * @returns {{ width: number; height: number }}
+ */
+export function rotatedSize(bitmap: ImageBitmap, rotation: number): { width: number; height: number } {
+  return rotation % 2 === 0 ? { width: bitmap.width, height: bitmap.height } : { width: bitmap.height, height: bitmap.width };
+}
+
+/**
+ * Draws the rotated, cropped image onto a canvas scaled to fit within maxDimension.
+ * @param {ImageBitmap} bitmap
+ * @param {ImageTransform} transform
+ * @param {number} maxDimension Longest side in pixels; 0 keeps the full size
+ * @returns {HTMLCanvasElement}
+ */
+export function drawImage(bitmap: ImageBitmap, transform: ImageTransform, maxDimension: number): HTMLCanvasElement {
+  const rotation = ((transform.rotation % 4) + 4) % 4;
+  const size = rotatedSize(bitmap, rotation);
+  const crop = transform.crop ?? { x: 0, y: 0, ...size };
+  const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(crop.width, crop.height)) : 1;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
+
+  const context = canvas.getContext("2d")!;
+  context.imageSmoothingQuality = "high";
+  context.scale(scale, scale);
+  context.translate(-crop.x, -crop.y);
+  context.translate(size.width / 2, size.height / 2);
+  context.rotate((rotation * Math.PI) / 2);
+  context.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  return canvas;
+}
+
+/**
+ * Prepares an input image for storage and sending: applies EXIF orientation and the optional crop and rotation,
+ * scales it down to the maximum dimension and re-encodes it. Re-encoding drops EXIF and other metadata.
+ * @param {Blob} blob
+ * @param {ImagePreprocessing} options
+ * @param {ImageTransform} [transform]
+ * @returns {Promise<Blob>}
+ * @throws {Error} If the browser cannot decode or encode the image.
+ */
+export async function preprocessImage(blob: Blob, options: ImagePreprocessing, transform: ImageTransform = { rotation: 0 }): Promise<Blob> {
+  const bitmap = await decodeImage(blob);
+  try {
+    const canvas = drawImage(bitmap, transform, options.maxDimension);
+    const type = options.format !== "original" ? options.format : ENCODABLE_TYPES.includes(blob.type) ? blob.type : "image/png";
+    return await new Promise((resolve, reject) =>
+      canvas.toBlob((result) => (result ? resolve(result) : reject(new Error("Could not encode the image."))), type, options.quality)
+    );
+  } finally {
+    bitmap.close();
+  }
+}
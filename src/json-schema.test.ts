@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { parseStructuredOutput, validateJson, type JsonSchema } from "./json-schema";
+
+const IDEAS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    ideas: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 3 },
+    rating: { type: "integer" },
+  },
+  required: ["ideas"],
+};
+
+describe("parseStructuredOutput", () => {
+  it("parses and validates a JSON response", () => {
+    expect(parseStructuredOutput('{"ideas":["lamp"]}', IDEAS_SCHEMA)).toEqual({ value: { ideas: ["lamp"] }, errors: [] });
+  });
+
+  it("tolerates a json code fence", () => {
+    expect(parseStructuredOutput('```json\n{"ideas":["lamp"]}\n```', IDEAS_SCHEMA).value).toEqual({ ideas: ["lamp"] });
+  });
+
+  it("keeps the value of a response that does not match the schema", () => {
+    const result = parseStructuredOutput('{"ideas":[]}', IDEAS_SCHEMA);
+
+    expect(result.value).toEqual({ ideas: [] });
+    expect(result.errors).toEqual(["$.ideas must have at least 1 items."]);
+  });
+
+  it("reports a response that is not JSON, without a value", () => {
+    const result = parseStructuredOutput("Here are some ideas", IDEAS_SCHEMA);
+
+    expect(result.value).toBeUndefined();
+    expect(result.errors[0]).toMatch(/^Response is not valid JSON: /);
+  });
+});
+
+describe("validateJson", () => {
+  it("reports missing required properties and mismatches at their path", () => {
+    expect(validateJson({ rating: 1.5 }, IDEAS_SCHEMA)).toEqual(["$.ideas is required.", "$.rating must be integer, got number."]);
+  });
+
+  it("checks array items and length", () => {
+    expect(validateJson({ ideas: ["a", 2, "c", "d"] }, IDEAS_SCHEMA)).toEqual([
+      "$.ideas must have at most 3 items.",
+      "$.ideas[1] must be string, got number.",
+    ]);
+  });
+
+  it("stops at a type mismatch", () => {
+    expect(validateJson(["lamp"], IDEAS_SCHEMA)).toEqual(["$ must be object, got array."]);
+  });
+
+  it("accepts any of several types", () => {
+    expect(validateJson(null, { type: ["string", "null"] })).toEqual([]);
+    expect(validateJson(1, { type: ["string", "null"] })).toEqual(["$ must be string or null, got number."]);
+  });
+
+  it("checks enums", () => {
+    expect(validateJson("large", { type: "string", enum: ["small", "medium"] })).toEqual(['$ must be one of "small", "medium".']);
+  });
+
+  it("accepts a value matching one of anyOf", () => {
+    const schema = { anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }] };
+
+    expect(validateJson(["a"], schema)).toEqual([]);
+    expect(validateJson(1, schema)).toEqual(["$ does not match any of the allowed schemas."]);
+  });
+
+  it("ignores unsupported keywords", () => {
+    expect(validateJson("abc", { type: "string", pattern: "^\\d+$", maxLength: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/** A JSON Schema object, as accepted by the providers' structured-output config */
+export type JsonSchema = Record<string, unknown>;
+
+export interface StructuredResult {
+  /** The parsed response, absent when it was not valid JSON */
+  value?: unknown;
+  /** Why the response does not match the schema; empty when it does */
+  errors: string[];
+}
+
+/**
+ * Parses a model response that was requested as JSON and validates it against the schema.
+ * Tolerates a ```json fence around the response, which some models add anyway.
+ * @param {string} text
+ * @param {JsonSchema} schema
+ * @returns {StructuredResult}
+ */
+export function parseStructuredOutput(text: string, schema: JsonSchema): StructuredResult {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  return { value, errors: validateJson(value, schema) };
+}
+
+/**
+ * Checks a value against the commonly used subset of JSON Schema: type, enum, properties, required, items,
+ * minItems/maxItems and anyOf. Other keywords are ignored.
+ * @param {unknown} value
+ * @param {JsonSchema} schema
+ * @param {string} [path] Location of `value` in the document, used in error messages
+ * @returns {string[]} One message per mismatch.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  if (Array.isArray(schema.anyOf)) {
+    const matches = (schema.anyOf as JsonSchema[]).some((option) => validateJson(value, option, path).length === 0);
+    return matches ? [] : [`${path} does not match any of the allowed schemas.`];
+  }
+
+  const types = typeof schema.type === "string" ? [schema.type] : Array.isArray(schema.type) ? (schema.type as string[]) : [];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    return [`${path} must be ${types.join(" or ")}, got ${jsonType(value)}.`];
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => option === value)) {
+    return [`${path} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}.`];
+  }
+
+  const errors: string[] = [];
+
+  if (isObject(value)) {
+    const properties = isObject(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {};
+    const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+    for (const name of required) {
+      if (!(name in value)) errors.push(`${path}.${name} is required.`);
+    }
+    for (const [name, propertySchema] of Object.entries(properties)) {
+      if (name in value) errors.push(...validateJson(value[name], propertySchema, `${path}.${name}`));
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items.`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items.`);
+    }
+    if (isObject(schema.items)) {
+      value.forEach((item, index) => errors.push(...validateJson(item, schema.items as JsonSchema, `${path}[${index}]`)));
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === "integer") return Number.isInteger(value);
+  return jsonType(value) === type;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value === "object" ? "object" : typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,52 +1,260 @@
-import { GoogleGenAI } from "@google/genai";
 import { createStore, get, set } from "idb-keyval";
+import {
+  createProvider,
+  PROVIDERS,
+  type GenerationChunk,
+  type GenerationConfig,
+  type GenerationPart,
+  type GenerationProvider,
+  type GenerationRequest,
+  type Modality,
+  type SafetyRating,
+  type TokenUsage,
+} from "./providers";
 import "./style.css";
-import type { LoadableTemplate } from "./types";
+import { emptyResponseError, isSafetyFinish, withRetry, type GenerationError } from "./errors";
+import { annotationLineWidth, drawAnnotations, maskInstruction, renderComposite, renderMask, transformAnnotation } from "./annotation";
+import { createArchive, readArchive, type ArchiveEntry, type ArchiveManifest } from "./archive";
+import { UndoHistory } from "./history";
+import { DEFAULT_IMAGE_PREPROCESSING, decodeImage, drawImage, preprocessImage, rotatedSize, type ImageTransform } from "./image-processing";
+import { parseStructuredOutput, type JsonSchema, type StructuredResult } from "./json-schema";
+import { renderMarkdown } from "./markdown";
+import { isPipelineVariable, runPipeline, type StepJob } from "./pipeline";
+import { buildRequest } from "./request-builder";
+import {
+  copyWorkspace,
+  DEFAULT_WORKSPACE_ID,
+  deleteImage,
+  deleteUnusedImages,
+  deleteWorkspace,
+  getImage,
+  migrate,
+  putImage,
+  setImage,
+  workspaceKey,
+} from "./storage";
+import { parsePipeline, parseTemplate } from "./template-schema";
+import { resolveVariables, substituteVariables } from "./template-variables";
+import { estimateTokens, estimateUsage, type TokenEstimate } from "./tokens";
+import type {
+  AnnotationShape,
+  AnnotationTool,
+  CompareVariant,
+  Comparison,
+  GalleryFilter,
+  GenerationSettings,
+  HistoryEntry,
+  ImageAnnotation,
+  ImagePreprocessing,
+  InputSnapshot,
+  LoadableTemplate,
+  MessageImage,
+  MessageItem,
+  MessageRole,
+  OutputError,
+  OutputItem,
+  PipelineStep,
+  RecordedMessage,
+  StoredImage,
+  Template,
+  TemplateVariable,
+  UsageTotal,
+  WorkbenchState,
+  Workspace,
+} from "./types";
 
 const asyncTemplates: Record<string, Promise<LoadableTemplate>> = {
-  "Tangible Interface Brainstorm v1": import("./templates/tangible-interface-brainstorm"),
+  "tangible-interface-brainstorm": import("./templates/tangible-interface-brainstorm"),
+  "tangible-interface-brainstorm-structured": import("./templates/tangible-interface-brainstorm-structured"),
+  "tangible-interface-pipeline": import("./templates/tangible-interface-pipeline"),
 };
 
 class GeminiImageManipulator {
   // --- 1. CONSTANTS ---
-  static MODEL = "gemini-2.5-flash-image-preview";
-  static TEXT_MODEL = "gemini-2.5-flash";
   static DB_NAME = "semcad-prototype";
   static STORE_NAME = "keyval";
   static PLACEHOLDER_IMAGE = "https://placehold.co/800";
+  static USER_TEMPLATE_PREFIX = "user:";
+  static MAX_VARIANTS = 50;
+  static QUEUED_TEXT = "Queued...";
+  static GENERATING_TEXT = "Generating...";
+  static RETRYING_TEXT = "Retrying";
+  static DEFAULT_MAX_RETRIES = 3;
+  /** Share of the token budget after which the usage total is shown as a warning */
+  static BUDGET_WARNING_RATIO = 0.8;
+  /** Delay after the last edit before the prompt tokens are counted again */
+  static TOKEN_ESTIMATE_DELAY_MS = 500;
+  /** Longest side of the crop/rotate preview, in pixels */
+  static IMAGE_EDITOR_SIZE = 640;
+  static ERROR_TITLES: Record<GenerationError["kind"], string> = {
+    "invalid-key": "🔑 Invalid API key",
+    quota: "⏳ Quota or rate limit reached",
+    safety: "🛡️ Blocked by safety filters",
+    network: "📡 Network or server error",
+    empty: "∅ Empty response",
+    unknown: "⚠️ Error",
+  };
+  static ERROR_HINTS: Partial<Record<GenerationError["kind"], string>> = {
+    "invalid-key": "Check the API key under Setup.",
+    quota: "Wait a moment, or raise Max retries in Model settings.",
+    safety: "Rephrase the prompt or change the input images.",
+    network: "Check your connection and retry.",
+    empty: "Retry, or rephrase the prompt.",
+  };
 
   // --- 2. MAIN CLASS & CONSTRUCTOR ---
 
-  messages: { id: string; text: string; image: { blob: Blob; mimeType: string; dataUrl: string } | null }[] = [];
+  messages: MessageItem[] = [];
   nextId: number = 1;
-  outputs: { id: string; imageUrl: string | null; text: string; loading: boolean }[] = [];
-  nextOutputId: number = 1;
+  outputs: OutputItem[] = [];
+  userTemplates: Record<string, Template> = {};
+  compareVariants: CompareVariant[] = [];
+  comparisons: Comparison[] = [];
+  galleryLayout: "list" | "grid" = "list";
+  /** Generate action made primary by the last loaded template */
+  primaryModality: Modality | null = null;
+  usage: UsageTotal = GeminiImageManipulator.createUsageTotal();
+  /** Prompt tokens of the current inputs; `counted` when the provider's count endpoint answered */
+  tokenEstimate: (TokenEstimate & { counted: boolean }) | null = null;
+  tokenEstimateTimer: ReturnType<typeof setTimeout> | undefined;
+  /** Incremented per estimate, so a slow count does not overwrite a newer one */
+  tokenEstimateVersion: number = 0;
+  /** Outputs checked for export; not saved */
+  selectedOutputIds: Set<string> = new Set();
+  /** The message image open in the crop/rotate editor */
+  imageEditorState: {
+    messageId: string;
+    imageIndex: number;
+    bitmap: ImageBitmap;
+    transform: ImageTransform;
+    dragStart: { x: number; y: number } | null;
+  } | null = null;
+  /** The message image open in the annotation editor, with the marks made so far and the one being drawn */
+  annotationEditorState: {
+    messageId: string;
+    imageIndex: number;
+    bitmap: ImageBitmap;
+    shapes: AnnotationShape[];
+    tool: AnnotationTool;
+    drawing: AnnotationShape | null;
+  } | null = null;
+  workspaces: Workspace[] = [];
+  workspaceId: string = DEFAULT_WORKSPACE_ID;
+  history: UndoHistory = new UndoHistory();
+  /** Workbench when a text field gained focus: the state to undo to, as the field's value changes before its input event */
+  editStartState: WorkbenchState | null = null;
+  /** Settings panel values from the page markup, used for workspaces that have not saved their own */
+  defaultGenerationSettings: GenerationSettings;
+  variables: TemplateVariable[] = [];
+  variableValues: Record<string, string> = {};
+  renderedVariableNames: string = "";
+  openDetailsIds: Set<string> = new Set();
+  abortControllers: Map<string, AbortController> = new Map();
+  /** Outputs with streamed text waiting for the next animation frame to be rendered */
+  pendingStreamRenders: Set<string> = new Set();
+  imageObserver: IntersectionObserver;
   draggedElement: HTMLElement | null = null;
   draggedId: string | null = null;
   store: any;
   elements: {
+    workspaceSelect: HTMLSelectElement;
+    newWorkspaceButton: HTMLButtonElement;
+    renameWorkspaceButton: HTMLButtonElement;
+    duplicateWorkspaceButton: HTMLButtonElement;
+    deleteWorkspaceButton: HTMLButtonElement;
+    providerSelect: HTMLSelectElement;
+    baseUrlInput: HTMLInputElement;
+    baseUrlSection: HTMLElement;
     apiKeyInput: HTMLInputElement;
+    imageModelInput: HTMLInputElement;
+    textModelInput: HTMLInputElement;
+    temperatureInput: HTMLInputElement;
+    topPInput: HTMLInputElement;
+    topKInput: HTMLInputElement;
+    maxOutputTokensInput: HTMLInputElement;
+    seedInput: HTMLInputElement;
+    stopSequencesInput: HTMLTextAreaElement;
+    aspectRatioSelect: HTMLSelectElement;
+    maxRetriesInput: HTMLInputElement;
+    inputMaxDimensionInput: HTMLInputElement;
+    inputFormatSelect: HTMLSelectElement;
+    inputQualityInput: HTMLInputElement;
+    imageEditor: HTMLDialogElement;
+    imageEditorCanvas: HTMLCanvasElement;
+    imageEditorRotateLeftButton: HTMLButtonElement;
+    imageEditorRotateRightButton: HTMLButtonElement;
+    imageEditorResetButton: HTMLButtonElement;
+    imageEditorCancelButton: HTMLButtonElement;
+    imageEditorApplyButton: HTMLButtonElement;
+    annotationEditor: HTMLDialogElement;
+    annotationCanvas: HTMLCanvasElement;
+    annotationToolButtons: HTMLButtonElement[];
+    annotationColorInput: HTMLInputElement;
+    annotationUndoButton: HTMLButtonElement;
+    annotationClearButton: HTMLButtonElement;
+    annotationModeSelect: HTMLSelectElement;
+    annotationCancelButton: HTMLButtonElement;
+    annotationSaveButton: HTMLButtonElement;
     systemMessage: HTMLTextAreaElement;
+    responseSchemaInput: HTMLTextAreaElement;
+    responseSchemaPanel: HTMLDetailsElement;
+    pipelineInput: HTMLTextAreaElement;
+    pipelinePanel: HTMLDetailsElement;
+    runPipelineButton: HTMLButtonElement;
     generateImageButton: HTMLButtonElement;
     generateTextButton: HTMLButtonElement;
+    usageBar: HTMLElement;
+    tokenEstimate: HTMLElement;
+    usageTotal: HTMLElement;
+    tokenBudgetInput: HTMLInputElement;
+    resetUsageButton: HTMLButtonElement;
+    variantCountInput: HTMLInputElement;
+    concurrencyInput: HTMLInputElement;
     messagesContainer: HTMLElement;
     addItemButton: HTMLButtonElement;
     deleteAllButton: HTMLButtonElement;
+    undoButton: HTMLButtonElement;
+    redoButton: HTMLButtonElement;
     outputContainer: HTMLElement;
+    compareVariantsContainer: HTMLElement;
+    addCompareVariantButton: HTMLButtonElement;
+    compareImageButton: HTMLButtonElement;
+    compareTextButton: HTMLButtonElement;
+    comparisonContainer: HTMLElement;
+    gallerySearchInput: HTMLInputElement;
+    galleryTagSelect: HTMLSelectElement;
+    galleryRatingSelect: HTMLSelectElement;
+    galleryModalitySelect: HTMLSelectElement;
+    galleryDateSelect: HTMLSelectElement;
+    galleryFavoritesInput: HTMLInputElement;
+    galleryLayoutButton: HTMLButtonElement;
+    galleryCount: HTMLElement;
+    exportZipButton: HTMLButtonElement;
+    importZipButton: HTMLButtonElement;
     deleteAllOutputsButton: HTMLButtonElement;
     templateSelect: HTMLSelectElement;
+    browseTemplatesButton: HTMLButtonElement;
+    templateGallery: HTMLDialogElement;
+    templateGallerySearchInput: HTMLInputElement;
+    templateGalleryList: HTMLElement;
+    templateGalleryCloseButton: HTMLButtonElement;
+    variablesContainer: HTMLElement;
+    saveTemplateButton: HTMLButtonElement;
+    exportTemplateButton: HTMLButtonElement;
+    importTemplateButton: HTMLButtonElement;
+    deleteTemplateButton: HTMLButtonElement;
   };
 
   constructor() {
     // State: Array of message items
-    // Each item: { id: string, text: string, image: {blob, mimeType, dataUrl} | null }
+    // Each item: { id: string, role: "user" | "model", text: string, images: {blob, mimeType, dataUrl}[] }
     this.messages = [];
     this.nextId = 1;
 
     // Output items state
-    // Each item: { id: string, imageUrl: string, text: string, loading: boolean }
+    // Each item: { id: string, imageId: string | null, imageUrl: string | null, text: string, loading: boolean }
+    // imageUrl is a runtime object URL for stored images, created lazily when the image scrolls into view
     this.outputs = [];
-    this.nextOutputId = 1;
 
     // Drag state
     this.draggedElement = null;
@@ -55,24 +263,107 @@ class GeminiImageManipulator {
     // Persistence Store
     this.store = createStore(GeminiImageManipulator.DB_NAME, GeminiImageManipulator.STORE_NAME);
 
+    // Lazy loading of stored output images
+    this.imageObserver = new IntersectionObserver((entries) => this.handleImageIntersection(entries), { rootMargin: "200px" });
+
     // DOM Elements
     this.elements = {
+      workspaceSelect: document.getElementById("workspace-select") as HTMLSelectElement,
+      newWorkspaceButton: document.getElementById("new-workspace-button") as HTMLButtonElement,
+      renameWorkspaceButton: document.getElementById("rename-workspace-button") as HTMLButtonElement,
+      duplicateWorkspaceButton: document.getElementById("duplicate-workspace-button") as HTMLButtonElement,
+      deleteWorkspaceButton: document.getElementById("delete-workspace-button") as HTMLButtonElement,
+      providerSelect: document.getElementById("provider-select") as HTMLSelectElement,
+      baseUrlInput: document.getElementById("base-url") as HTMLInputElement,
+      baseUrlSection: document.getElementById("base-url-section") as HTMLElement,
       apiKeyInput: document.getElementById("api-key") as HTMLInputElement,
+      imageModelInput: document.getElementById("image-model") as HTMLInputElement,
+      textModelInput: document.getElementById("text-model") as HTMLInputElement,
+      temperatureInput: document.getElementById("temperature") as HTMLInputElement,
+      topPInput: document.getElementById("top-p") as HTMLInputElement,
+      topKInput: document.getElementById("top-k") as HTMLInputElement,
+      maxOutputTokensInput: document.getElementById("max-output-tokens") as HTMLInputElement,
+      seedInput: document.getElementById("seed") as HTMLInputElement,
+      stopSequencesInput: document.getElementById("stop-sequences") as HTMLTextAreaElement,
+      aspectRatioSelect: document.getElementById("aspect-ratio") as HTMLSelectElement,
+      maxRetriesInput: document.getElementById("max-retries") as HTMLInputElement,
+      inputMaxDimensionInput: document.getElementById("input-max-dimension") as HTMLInputElement,
+      inputFormatSelect: document.getElementById("input-format") as HTMLSelectElement,
+      inputQualityInput: document.getElementById("input-quality") as HTMLInputElement,
+      imageEditor: document.getElementById("image-editor") as HTMLDialogElement,
+      imageEditorCanvas: document.getElementById("image-editor-canvas") as HTMLCanvasElement,
+      imageEditorRotateLeftButton: document.getElementById("image-editor-rotate-left") as HTMLButtonElement,
+      imageEditorRotateRightButton: document.getElementById("image-editor-rotate-right") as HTMLButtonElement,
+      imageEditorResetButton: document.getElementById("image-editor-reset") as HTMLButtonElement,
+      imageEditorCancelButton: document.getElementById("image-editor-cancel") as HTMLButtonElement,
+      imageEditorApplyButton: document.getElementById("image-editor-apply") as HTMLButtonElement,
+      annotationEditor: document.getElementById("annotation-editor") as HTMLDialogElement,
+      annotationCanvas: document.getElementById("annotation-canvas") as HTMLCanvasElement,
+      annotationToolButtons: Array.from(document.querySelectorAll<HTMLButtonElement>(".annotation-tool")),
+      annotationColorInput: document.getElementById("annotation-color") as HTMLInputElement,
+      annotationUndoButton: document.getElementById("annotation-undo") as HTMLButtonElement,
+      annotationClearButton: document.getElementById("annotation-clear") as HTMLButtonElement,
+      annotationModeSelect: document.getElementById("annotation-mode") as HTMLSelectElement,
+      annotationCancelButton: document.getElementById("annotation-cancel") as HTMLButtonElement,
+      annotationSaveButton: document.getElementById("annotation-save") as HTMLButtonElement,
       systemMessage: document.getElementById("system-message") as HTMLTextAreaElement,
+      responseSchemaInput: document.getElementById("response-schema") as HTMLTextAreaElement,
+      responseSchemaPanel: document.getElementById("response-schema-panel") as HTMLDetailsElement,
+      pipelineInput: document.getElementById("pipeline") as HTMLTextAreaElement,
+      pipelinePanel: document.getElementById("pipeline-panel") as HTMLDetailsElement,
+      runPipelineButton: document.getElementById("run-pipeline-button") as HTMLButtonElement,
       generateImageButton: document.getElementById("generate-button") as HTMLButtonElement,
       generateTextButton: document.getElementById("generate-text-button") as HTMLButtonElement,
+      usageBar: document.getElementById("usage-bar") as HTMLElement,
+      tokenEstimate: document.getElementById("token-estimate") as HTMLElement,
+      usageTotal: document.getElementById("usage-total") as HTMLElement,
+      tokenBudgetInput: document.getElementById("token-budget") as HTMLInputElement,
+      resetUsageButton: document.getElementById("reset-usage-button") as HTMLButtonElement,
+      variantCountInput: document.getElementById("variant-count") as HTMLInputElement,
+      concurrencyInput: document.getElementById("concurrency") as HTMLInputElement,
       messagesContainer: document.getElementById("messages-container") as HTMLElement,
       addItemButton: document.getElementById("add-item-button") as HTMLButtonElement,
       deleteAllButton: document.getElementById("delete-all-button") as HTMLButtonElement,
+      undoButton: document.getElementById("undo-button") as HTMLButtonElement,
+      redoButton: document.getElementById("redo-button") as HTMLButtonElement,
       outputContainer: document.getElementById("output-container") as HTMLElement,
+      compareVariantsContainer: document.getElementById("compare-variants") as HTMLElement,
+      addCompareVariantButton: document.getElementById("add-compare-variant-button") as HTMLButtonElement,
+      compareImageButton: document.getElementById("compare-image-button") as HTMLButtonElement,
+      compareTextButton: document.getElementById("compare-text-button") as HTMLButtonElement,
+      comparisonContainer: document.getElementById("comparison-container") as HTMLElement,
+      gallerySearchInput: document.getElementById("gallery-search") as HTMLInputElement,
+      galleryTagSelect: document.getElementById("gallery-tag") as HTMLSelectElement,
+      galleryRatingSelect: document.getElementById("gallery-rating") as HTMLSelectElement,
+      galleryModalitySelect: document.getElementById("gallery-modality") as HTMLSelectElement,
+      galleryDateSelect: document.getElementById("gallery-date") as HTMLSelectElement,
+      galleryFavoritesInput: document.getElementById("gallery-favorites") as HTMLInputElement,
+      galleryLayoutButton: document.getElementById("gallery-layout-button") as HTMLButtonElement,
+      galleryCount: document.getElementById("gallery-count") as HTMLElement,
+      exportZipButton: document.getElementById("export-zip-button") as HTMLButtonElement,
+      importZipButton: document.getElementById("import-zip-button") as HTMLButtonElement,
       deleteAllOutputsButton: document.getElementById("delete-all-outputs-button") as HTMLButtonElement,
       templateSelect: document.getElementById("template-select") as HTMLSelectElement,
+      browseTemplatesButton: document.getElementById("browse-templates-button") as HTMLButtonElement,
+      templateGallery: document.getElementById("template-gallery") as HTMLDialogElement,
+      templateGallerySearchInput: document.getElementById("template-gallery-search") as HTMLInputElement,
+      templateGalleryList: document.getElementById("template-gallery-list") as HTMLElement,
+      templateGalleryCloseButton: document.getElementById("template-gallery-close") as HTMLButtonElement,
+      variablesContainer: document.getElementById("variables-container") as HTMLElement,
+      saveTemplateButton: document.getElementById("save-template-button") as HTMLButtonElement,
+      exportTemplateButton: document.getElementById("export-template-button") as HTMLButtonElement,
+      importTemplateButton: document.getElementById("import-template-button") as HTMLButtonElement,
+      deleteTemplateButton: document.getElementById("delete-template-button") as HTMLButtonElement,
     };
 
+    this.defaultGenerationSettings = this.getGenerationSettings();
+
     this.loadState().then(() => {
       this.bindEvents();
       this.renderMessages();
+      this.renderVariables();
       this.renderOutputs();
+      this.renderCompareVariants();
       this.populateTemplateSelect();
     });
   }
@@ -81,82 +372,246 @@ class GeminiImageManipulator {
 
   async loadState() {
     try {
-      const { apiKeyInput, systemMessage } = this.elements;
+      const { apiKeyInput } = this.elements;
+
+      // Upgrade data saved by older versions before reading it
+      await migrate(this.store);
+      // Before anything refers to new image records that are not saved yet
+      await deleteUnusedImages(this.store);
 
       // Load API Key
       const apiKey = await get("apiKey", this.store);
       if (apiKey) apiKeyInput.value = apiKey;
 
+      // Load Provider
+      this.populateProviderSelect();
+      const providerSettings = await get("providerSettings", this.store);
+      if (providerSettings) {
+        this.elements.providerSelect.value = providerSettings.providerId;
+        this.elements.baseUrlInput.value = providerSettings.baseUrl;
+      }
+      this.updateProviderFields();
+
+      // Load User Templates
+      const userTemplates = await get("userTemplates", this.store);
+      if (userTemplates) this.userTemplates = userTemplates;
+
+      // Load Workspaces, reopening the last one used
+      const workspaces = await get("workspaces", this.store);
+      this.workspaces = workspaces?.length ? workspaces : [{ id: DEFAULT_WORKSPACE_ID, name: "Default" }];
+      const currentWorkspaceId = await get("currentWorkspaceId", this.store);
+      this.workspaceId = this.workspaces.some((workspace) => workspace.id === currentWorkspaceId) ? currentWorkspaceId : this.workspaces[0].id;
+      this.populateWorkspaceSelect();
+
+      await this.loadWorkspace();
+    } catch (error) {
+      console.error("Error loading state from IndexedDB:", error);
+    }
+  }
+
+  /**
+   * Replaces the messages, outputs and settings on screen with those saved in the current workspace.
+   * Fields the workspace has never saved are reset to their defaults.
+   */
+  async loadWorkspace() {
+    const { systemMessage } = this.elements;
+
+    // Start from a blank workbench; stored images stay, only their object URLs are released
+    for (const output of this.outputs) {
+      if (output.imageUrl?.startsWith("blob:")) URL.revokeObjectURL(output.imageUrl);
+    }
+    this.messages = [];
+    this.nextId = 1;
+    this.outputs = [];
+    this.variables = [];
+    this.variableValues = {};
+    this.compareVariants = [];
+    this.comparisons = [];
+    this.galleryLayout = "list";
+    this.setPrimaryModality(null);
+    this.usage = GeminiImageManipulator.createUsageTotal();
+    this.selectedOutputIds.clear();
+    this.openDetailsIds.clear();
+    systemMessage.value = "";
+    this.setResponseSchemaText("");
+    this.elements.responseSchemaPanel.open = false;
+    this.setPipelineText("");
+    this.elements.pipelinePanel.open = false;
+    this.setGenerationSettings(this.defaultGenerationSettings);
+    this.elements.variantCountInput.value = this.elements.variantCountInput.defaultValue;
+    this.elements.concurrencyInput.value = this.elements.concurrencyInput.defaultValue;
+    this.history = new UndoHistory();
+
+    try {
+      // Load Generation Settings
+      const generationSettings = await get(this.scopedKey("generationSettings"), this.store);
+      if (generationSettings) this.setGenerationSettings(generationSettings);
+
       // Load System Message
-      const systemMsg = await get("systemMessage", this.store);
+      const systemMsg = await get(this.scopedKey("systemMessage"), this.store);
       if (systemMsg) systemMessage.value = systemMsg;
 
+      // Load Response Schema
+      const responseSchema = await get(this.scopedKey("responseSchema"), this.store);
+      if (responseSchema) this.setResponseSchemaText(responseSchema);
+
+      // Load Pipeline
+      const pipeline = await get(this.scopedKey("pipeline"), this.store);
+      if (pipeline) this.setPipelineText(pipeline);
+
       // Load Messages
-      const messages = await get("messages", this.store);
+      const messages = await get(this.scopedKey("messages"), this.store);
       if (messages && Array.isArray(messages)) {
         // Reconstruct messages, converting Blobs back to data URLs for images
-        this.messages = await Promise.all(
-          messages.map(async (msg) => {
-            if (msg.image) {
-              const dataUrl = await GeminiImageManipulator.blobToDataUrl(msg.image.blob);
-              return {
-                ...msg,
-                image: {
-                  ...msg.image,
-                  dataUrl: dataUrl,
-                },
-              };
-            }
-            return msg;
-          })
-        );
+        this.messages = await Promise.all(messages.map(async (msg) => ({ ...msg, images: await GeminiImageManipulator.withDataUrls(msg.images) })));
         // Update nextId to avoid collisions
         const maxId = Math.max(...this.messages.map((m) => parseInt(m.id)), 0);
         this.nextId = maxId + 1;
       }
 
       // Load Outputs
-      const outputs = await get("outputs", this.store);
+      const outputs = await get(this.scopedKey("outputs"), this.store);
       if (outputs && Array.isArray(outputs)) {
-        this.outputs = outputs.filter((output) => !output.loading); // Remove any loading states
-        const maxOutputId = Math.max(...this.outputs.map((o) => parseInt(o.id)), 0);
-        this.nextOutputId = maxOutputId + 1;
+        // Outputs still loading when the page was closed are kept, marked as interrupted
+        this.outputs = outputs.map((output) => (output.loading ? GeminiImageManipulator.toInterruptedOutput(output) : output));
       }
+
+      // Load Template Variables
+      const variables = await get(this.scopedKey("variables"), this.store);
+      if (variables && Array.isArray(variables)) this.variables = variables;
+      const variableValues = await get(this.scopedKey("variableValues"), this.store);
+      if (variableValues) this.variableValues = variableValues;
+
+      // Load Batch Settings
+      const batchSettings = await get(this.scopedKey("batchSettings"), this.store);
+      if (batchSettings) {
+        this.elements.variantCountInput.value = String(batchSettings.variantCount);
+        this.elements.concurrencyInput.value = String(batchSettings.concurrency);
+      }
+
+      // Load Comparisons
+      const compareVariants = await get(this.scopedKey("compareVariants"), this.store);
+      if (compareVariants && Array.isArray(compareVariants)) this.compareVariants = compareVariants;
+      const comparisons = await get(this.scopedKey("comparisons"), this.store);
+      if (comparisons && Array.isArray(comparisons)) this.comparisons = comparisons;
+
+      // Load Gallery Layout
+      const galleryLayout = await get(this.scopedKey("galleryLayout"), this.store);
+      if (galleryLayout) this.galleryLayout = galleryLayout;
+
+      // Load Primary Generate Action
+      const primaryModality = await get(this.scopedKey("primaryModality"), this.store);
+      if (primaryModality) this.setPrimaryModality(primaryModality);
+
+      // Load Token Usage
+      const usage = await get(this.scopedKey("usage"), this.store);
+      if (usage) this.usage = usage;
+
+      // Load Undo History
+      const history = await get(this.scopedKey("history"), this.store);
+      this.history = new UndoHistory(history?.undo, history?.redo);
     } catch (error) {
-      console.error("Error loading state from IndexedDB:", error);
+      console.error("Error loading workspace from IndexedDB:", error);
     }
+    this.updateHistoryButtons();
+    this.elements.tokenBudgetInput.value = this.usage.budget ? String(this.usage.budget) : "";
+    this.renderUsage();
+    this.scheduleTokenEstimate();
+  }
+
+  /**
+   * Storage key of a value that belongs to the current workspace.
+   * @param {string} key
+   * @returns {string}
+   */
+  scopedKey(key: string): string {
+    return workspaceKey(this.workspaceId, key);
+  }
+
+  async saveWorkspaces() {
+    await set("workspaces", this.workspaces, this.store);
+    await set("currentWorkspaceId", this.workspaceId, this.store);
   }
 
   async saveApiKey(key: string) {
     await set("apiKey", key, this.store);
   }
 
+  async saveProviderSettings() {
+    const { providerId, baseUrl } = this.getProviderSettings();
+    await set("providerSettings", { providerId, baseUrl }, this.store);
+  }
+
+  async saveGenerationSettings() {
+    this.scheduleTokenEstimate();
+    await set(this.scopedKey("generationSettings"), this.getGenerationSettings(), this.store);
+  }
+
   async saveSystemMessage(message: string) {
-    await set("systemMessage", message, this.store);
+    this.scheduleTokenEstimate();
+    await set(this.scopedKey("systemMessage"), message, this.store);
+  }
+
+  async saveResponseSchema(text: string) {
+    await set(this.scopedKey("responseSchema"), text, this.store);
+  }
+
+  async savePipeline(text: string) {
+    await set(this.scopedKey("pipeline"), text, this.store);
   }
 
   async saveMessages() {
-    // Store messages, keeping Blobs for images but removing dataUrl
-    const serializableMessages = this.messages.map((msg) => {
-      if (msg.image) {
-        return {
-          ...msg,
-          image: {
-            blob: msg.image.blob,
-            mimeType: msg.image.mimeType,
-            // dataUrl is omitted for storage efficiency
-          },
-        };
-      }
-      return msg;
-    });
-    await set("messages", serializableMessages, this.store);
+    this.scheduleTokenEstimate();
+    // Store messages, keeping Blobs for images but removing dataUrl for storage efficiency
+    const serializableMessages = this.messages.map(GeminiImageManipulator.toStoredMessage);
+    await set(this.scopedKey("messages"), serializableMessages, this.store);
   }
 
   async saveOutputs() {
-    // Only save non-loading outputs
-    const serializableOutputs = this.outputs.filter((output) => !output.loading);
-    await set("outputs", serializableOutputs, this.store);
+    // Loading outputs are saved too, so a reload can show them as interrupted.
+    // Stored images are referenced by imageId; their object URLs are runtime-only
+    const serializableOutputs = this.outputs.map((output) => ({ ...output, imageUrl: output.imageId ? null : output.imageUrl }));
+    await set(this.scopedKey("outputs"), serializableOutputs, this.store);
+  }
+
+  async saveVariables() {
+    this.scheduleTokenEstimate();
+    await set(this.scopedKey("variables"), this.variables, this.store);
+    await set(this.scopedKey("variableValues"), this.variableValues, this.store);
+  }
+
+  async saveBatchSettings() {
+    const { variantCount, concurrency } = this.getBatchSettings();
+    await set(this.scopedKey("batchSettings"), { variantCount, concurrency }, this.store);
+  }
+
+  async saveCompareVariants() {
+    await set(this.scopedKey("compareVariants"), this.compareVariants, this.store);
+  }
+
+  async saveComparisons() {
+    await set(this.scopedKey("comparisons"), this.comparisons, this.store);
+  }
+
+  async saveGalleryLayout() {
+    await set(this.scopedKey("galleryLayout"), this.galleryLayout, this.store);
+  }
+
+  async saveUsage() {
+    await set(this.scopedKey("usage"), this.usage, this.store);
+  }
+
+  async savePrimaryModality() {
+    this.scheduleTokenEstimate();
+    await set(this.scopedKey("primaryModality"), this.primaryModality, this.store);
+  }
+
+  async saveHistory() {
+    await set(this.scopedKey("history"), { undo: this.history.undoStack, redo: this.history.redoStack }, this.store);
+  }
+
+  async saveUserTemplates() {
+    await set("userTemplates", this.userTemplates, this.store);
   }
 
   // --- Event Binding ---
@@ -167,10 +622,123 @@ class GeminiImageManipulator {
     this.elements.addItemButton.addEventListener("click", () => this.addItem());
     this.elements.deleteAllButton.addEventListener("click", () => this.deleteAllMessages());
     this.elements.deleteAllOutputsButton.addEventListener("click", () => this.deleteAllOutputs());
+    this.elements.addCompareVariantButton.addEventListener("click", () => this.addCompareVariant());
+    this.elements.compareImageButton.addEventListener("click", () => this.handleCompare("image"));
+    this.elements.compareTextButton.addEventListener("click", () => this.handleCompare("text"));
+    this.elements.undoButton.addEventListener("click", () => this.undo());
+
+    // Gallery toolbar
+    this.elements.gallerySearchInput.addEventListener("input", () => this.renderOutputs());
+    const galleryFilters = [
+      this.elements.galleryTagSelect,
+      this.elements.galleryRatingSelect,
+      this.elements.galleryModalitySelect,
+      this.elements.galleryDateSelect,
+      this.elements.galleryFavoritesInput,
+    ];
+    galleryFilters.forEach((input) => input.addEventListener("change", () => this.renderOutputs()));
+    this.elements.galleryLayoutButton.addEventListener("click", () => this.toggleGalleryLayout());
+    this.elements.exportZipButton.addEventListener("click", () => this.exportOutputs());
+    this.elements.messagesContainer.addEventListener("dragover", (e) => this.handleListDragOver(e));
+    this.elements.messagesContainer.addEventListener("drop", (e) => this.handleListDrop(e));
+    this.elements.imageEditorCanvas.addEventListener("pointerdown", (e) => this.handleImageEditorPointer(e));
+    this.elements.imageEditorCanvas.addEventListener("pointermove", (e) => this.handleImageEditorPointer(e));
+    this.elements.imageEditorCanvas.addEventListener("pointerup", (e) => this.handleImageEditorPointer(e));
+    this.elements.imageEditorRotateLeftButton.addEventListener("click", () => this.rotateEditorImage(-1));
+    this.elements.imageEditorRotateRightButton.addEventListener("click", () => this.rotateEditorImage(1));
+    this.elements.imageEditorResetButton.addEventListener("click", () => this.resetEditorImage());
+    this.elements.imageEditorCancelButton.addEventListener("click", () => this.elements.imageEditor.close());
+    this.elements.imageEditorApplyButton.addEventListener("click", () => this.applyImageEditor());
+    this.elements.imageEditor.addEventListener("close", () => this.closeImageEditor());
+    for (const eventType of ["pointerdown", "pointermove", "pointerup"] as const) {
+      this.elements.annotationCanvas.addEventListener(eventType, (e) => this.handleAnnotationPointer(e));
+    }
+    this.elements.annotationToolButtons.forEach((button) =>
+      button.addEventListener("click", () => this.setAnnotationTool(button.dataset.tool as AnnotationTool))
+    );
+    this.elements.annotationUndoButton.addEventListener("click", () => this.editAnnotationShapes((shapes) => shapes.slice(0, -1)));
+    this.elements.annotationClearButton.addEventListener("click", () => this.editAnnotationShapes(() => []));
+    this.elements.annotationCancelButton.addEventListener("click", () => this.elements.annotationEditor.close());
+    this.elements.annotationSaveButton.addEventListener("click", () => this.saveAnnotation());
+    this.elements.annotationEditor.addEventListener("close", () => this.closeAnnotationEditor());
+    this.elements.importZipButton.addEventListener("click", () => this.importOutputs());
+    this.elements.redoButton.addEventListener("click", () => this.redo());
+
+    // Undo shortcuts; text fields keep their own undo while focused
+    document.addEventListener("keydown", (e) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if ((e.target as HTMLElement).closest("input, textarea, select")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        this.undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        this.redo();
+      }
+    });
 
     // Persistence listeners
+    this.elements.providerSelect.addEventListener("change", () => {
+      this.updateProviderFields();
+      this.saveProviderSettings();
+      this.scheduleTokenEstimate();
+    });
+    this.elements.baseUrlInput.addEventListener("input", () => this.saveProviderSettings());
+    // Count again once the key or URL is entered, not on every keystroke, which would send the prompt with partial credentials
+    for (const input of [this.elements.baseUrlInput, this.elements.apiKeyInput]) {
+      input.addEventListener("change", () => this.scheduleTokenEstimate());
+    }
+    const settingsInputs = [
+      this.elements.imageModelInput,
+      this.elements.textModelInput,
+      this.elements.temperatureInput,
+      this.elements.topPInput,
+      this.elements.topKInput,
+      this.elements.maxOutputTokensInput,
+      this.elements.seedInput,
+      this.elements.stopSequencesInput,
+      this.elements.aspectRatioSelect,
+      this.elements.maxRetriesInput,
+      this.elements.inputMaxDimensionInput,
+      this.elements.inputFormatSelect,
+      this.elements.inputQualityInput,
+    ];
+    settingsInputs.forEach((input) => input.addEventListener("change", () => this.saveGenerationSettings()));
     this.elements.apiKeyInput.addEventListener("input", (e) => this.saveApiKey((e.target as HTMLInputElement).value.trim()));
-    this.elements.systemMessage.addEventListener("input", (e) => this.saveSystemMessage((e.target as HTMLTextAreaElement).value.trim()));
+    for (const field of [this.elements.systemMessage, this.elements.responseSchemaInput, this.elements.pipelineInput]) {
+      field.addEventListener("focus", () => (this.editStartState = this.captureWorkbench()));
+    }
+    this.elements.systemMessage.addEventListener("input", (e) => {
+      this.recordHistory("Edit system message", { coalesceKey: "systemMessage", state: this.editStartState ?? undefined });
+      this.saveSystemMessage((e.target as HTMLTextAreaElement).value.trim());
+      this.renderVariables();
+    });
+    this.elements.responseSchemaInput.addEventListener("input", (e) => {
+      this.recordHistory("Edit response schema", { coalesceKey: "responseSchema", state: this.editStartState ?? undefined });
+      this.saveResponseSchema((e.target as HTMLTextAreaElement).value.trim());
+      this.updateResponseSchemaValidity();
+    });
+    this.elements.pipelineInput.addEventListener("input", (e) => {
+      this.recordHistory("Edit pipeline", { coalesceKey: "pipeline", state: this.editStartState ?? undefined });
+      this.savePipeline((e.target as HTMLTextAreaElement).value.trim());
+      this.updatePipelineValidity();
+      this.renderVariables();
+    });
+    this.elements.runPipelineButton.addEventListener("click", () => this.handleRunPipeline());
+
+    this.elements.tokenBudgetInput.addEventListener("change", () => this.setTokenBudget(this.elements.tokenBudgetInput.valueAsNumber));
+    this.elements.resetUsageButton.addEventListener("click", () => this.resetUsage());
+    this.elements.variantCountInput.addEventListener("change", () => this.saveBatchSettings());
+    this.elements.concurrencyInput.addEventListener("change", () => this.saveBatchSettings());
+
+    // Workspaces
+    this.elements.workspaceSelect.addEventListener("change", (e) => this.switchWorkspace((e.target as HTMLSelectElement).value));
+    this.elements.newWorkspaceButton.addEventListener("click", () => this.createWorkspace());
+    this.elements.renameWorkspaceButton.addEventListener("click", () => this.renameWorkspace());
+    this.elements.duplicateWorkspaceButton.addEventListener("click", () => this.duplicateWorkspace());
+    this.elements.deleteWorkspaceButton.addEventListener("click", () => this.deleteWorkspace());
 
     // Template select
     this.elements.templateSelect.addEventListener("change", async (e) => {
@@ -179,27 +747,378 @@ class GeminiImageManipulator {
         await this.loadTemplate(value);
       }
     });
+
+    // Template library
+    this.elements.browseTemplatesButton.addEventListener("click", () => this.openTemplateGallery());
+    this.elements.templateGallerySearchInput.addEventListener("input", () => this.renderTemplateGallery());
+    this.elements.templateGalleryCloseButton.addEventListener("click", () => this.elements.templateGallery.close());
+    this.elements.saveTemplateButton.addEventListener("click", () => this.saveCurrentAsTemplate());
+    this.elements.exportTemplateButton.addEventListener("click", () => this.exportTemplate());
+    this.elements.importTemplateButton.addEventListener("click", () => this.importTemplate());
+    this.elements.deleteTemplateButton.addEventListener("click", () => this.deleteUserTemplate());
+  }
+
+  // --- Workspaces ---
+
+  populateWorkspaceSelect() {
+    const select = this.elements.workspaceSelect;
+    select.innerHTML = "";
+    for (const workspace of this.workspaces) {
+      const option = document.createElement("option");
+      option.value = workspace.id;
+      option.textContent = workspace.name;
+      select.appendChild(option);
+    }
+    select.value = this.workspaceId;
+    this.elements.deleteWorkspaceButton.disabled = this.workspaces.length <= 1;
+  }
+
+  /**
+   * Asks before leaving a workspace with generations still running, and cancels them if the user agrees.
+   * @returns {boolean} Whether the current workspace may be left.
+   */
+  confirmLeaveWorkspace(): boolean {
+    if (this.abortControllers.size > 0 && !confirm("Generations in progress will be cancelled. Switch workspace anyway?")) return false;
+
+    [...this.abortControllers.keys()].forEach((outputId) => this.cancelOutput(outputId));
+    return true;
+  }
+
+  /**
+   * Opens another workspace. Generations still running in the current one are cancelled first.
+   * @param {string} id
+   */
+  async switchWorkspace(id: string) {
+    if (id === this.workspaceId) return;
+
+    if (!this.confirmLeaveWorkspace()) {
+      this.elements.workspaceSelect.value = this.workspaceId;
+      return;
+    }
+    await this.openWorkspace(id);
+  }
+
+  /**
+   * Loads and renders a workspace without asking; callers confirm leaving the current one first.
+   * @param {string} id
+   */
+  async openWorkspace(id: string) {
+    this.workspaceId = id;
+    this.populateWorkspaceSelect();
+    await this.saveWorkspaces();
+    await this.loadWorkspace();
+
+    this.renderMessages();
+    this.renderVariables(true);
+    this.renderOutputs();
+    this.renderCompareVariants();
+    this.elements.templateSelect.value = "";
+  }
+
+  /**
+   * Asks for a workspace name, suggesting `defaultName`.
+   * @param {string} defaultName
+   * @returns {string | null} The trimmed name, or null if cancelled or empty.
+   */
+  promptWorkspaceName(defaultName: string): string | null {
+    return prompt("Workspace name:", defaultName)?.trim() || null;
+  }
+
+  async createWorkspace() {
+    const name = this.promptWorkspaceName(`Workspace ${this.workspaces.length + 1}`);
+    if (!name || !this.confirmLeaveWorkspace()) return;
+
+    const id = crypto.randomUUID();
+    this.workspaces.push({ id, name });
+    await this.openWorkspace(id);
+  }
+
+  async renameWorkspace() {
+    const workspace = this.workspaces.find((w) => w.id === this.workspaceId);
+    if (!workspace) return;
+
+    const name = this.promptWorkspaceName(workspace.name);
+    if (!name) return;
+
+    workspace.name = name;
+    this.populateWorkspaceSelect();
+    await this.saveWorkspaces();
+  }
+
+  async duplicateWorkspace() {
+    const workspace = this.workspaces.find((w) => w.id === this.workspaceId);
+    if (!workspace) return;
+
+    const name = this.promptWorkspaceName(`${workspace.name} (copy)`);
+    if (!name || !this.confirmLeaveWorkspace()) return;
+
+    // Make sure edits still being written are part of the copy
+    await Promise.all([this.saveMessages(), this.saveOutputs(), this.saveVariables()]);
+
+    const id = crypto.randomUUID();
+    await copyWorkspace(this.store, this.workspaceId, id);
+    this.workspaces.splice(this.workspaces.indexOf(workspace) + 1, 0, { id, name });
+    await this.openWorkspace(id);
+  }
+
+  async deleteWorkspace() {
+    const workspace = this.workspaces.find((w) => w.id === this.workspaceId);
+    if (!workspace || this.workspaces.length <= 1) return;
+
+    if (!confirm(`Delete the workspace "${workspace.name}" with all its messages and outputs?`) || !this.confirmLeaveWorkspace()) return;
+
+    const index = this.workspaces.indexOf(workspace);
+    this.workspaces.splice(index, 1);
+    await this.openWorkspace(this.workspaces[Math.max(index - 1, 0)].id);
+    await deleteWorkspace(this.store, workspace.id);
+  }
+
+  populateProviderSelect() {
+    this.elements.providerSelect.innerHTML = "";
+    for (const provider of PROVIDERS) {
+      const option = document.createElement("option");
+      option.value = provider.id;
+      option.textContent = provider.label;
+      this.elements.providerSelect.appendChild(option);
+    }
+  }
+
+  /** Shows the base URL field only for providers that use it, and the provider's default models as placeholders. */
+  updateProviderFields() {
+    const providerId = this.elements.providerSelect.value;
+    this.elements.baseUrlSection.hidden = providerId !== "openai-compatible";
+
+    const defaultModels = PROVIDERS.find((provider) => provider.id === providerId)?.defaultModels;
+    this.elements.imageModelInput.placeholder = defaultModels?.image ?? "";
+    this.elements.textModelInput.placeholder = defaultModels?.text ?? "";
+  }
+
+  /**
+   * Reads the settings panel. Empty fields are left out so the model's defaults apply.
+   * @returns {GenerationSettings}
+   */
+  getGenerationSettings(): GenerationSettings {
+    const { temperatureInput, topPInput, topKInput, maxOutputTokensInput, seedInput, stopSequencesInput, aspectRatioSelect } = this.elements;
+    const readNumber = (input: HTMLInputElement) => (input.value.trim() === "" ? undefined : input.valueAsNumber);
+    const stopSequences = stopSequencesInput.value.split("\n").filter((line) => line.length > 0);
+
+    const config: GenerationConfig = {
+      temperature: readNumber(temperatureInput),
+      topP: readNumber(topPInput),
+      topK: readNumber(topKInput),
+      maxOutputTokens: readNumber(maxOutputTokensInput),
+      seed: readNumber(seedInput),
+      stopSequences: stopSequences.length > 0 ? stopSequences : undefined,
+      aspectRatio: aspectRatioSelect.value || undefined,
+    };
+
+    return {
+      imageModel: this.elements.imageModelInput.value.trim(),
+      textModel: this.elements.textModelInput.value.trim(),
+      config: Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined && !Number.isNaN(value))),
+      maxRetries: readNumber(this.elements.maxRetriesInput) ?? GeminiImageManipulator.DEFAULT_MAX_RETRIES,
+      imagePreprocessing: {
+        maxDimension: readNumber(this.elements.inputMaxDimensionInput) ?? 0,
+        format: this.elements.inputFormatSelect.value as ImagePreprocessing["format"],
+        quality: readNumber(this.elements.inputQualityInput) ?? DEFAULT_IMAGE_PREPROCESSING.quality,
+      },
+    };
   }
 
-  populateTemplateSelect() {
-    this.elements.templateSelect.innerHTML = '<option value="">Select a template...</option>';
-    for (const key of Object.keys(asyncTemplates)) {
+  setGenerationSettings(settings: GenerationSettings) {
+    const { config } = settings;
+    const writeNumber = (input: HTMLInputElement, value: number | undefined) => (input.value = value === undefined ? "" : String(value));
+
+    this.elements.imageModelInput.value = settings.imageModel;
+    this.elements.textModelInput.value = settings.textModel;
+    writeNumber(this.elements.temperatureInput, config.temperature);
+    writeNumber(this.elements.topPInput, config.topP);
+    writeNumber(this.elements.topKInput, config.topK);
+    writeNumber(this.elements.maxOutputTokensInput, config.maxOutputTokens);
+    writeNumber(this.elements.seedInput, config.seed);
+    this.elements.stopSequencesInput.value = (config.stopSequences ?? []).join("\n");
+    this.elements.aspectRatioSelect.value = config.aspectRatio ?? "";
+    // Settings saved before retries existed use the default
+    this.elements.maxRetriesInput.value = String(settings.maxRetries ?? GeminiImageManipulator.DEFAULT_MAX_RETRIES);
+    const imagePreprocessing = settings.imagePreprocessing ?? DEFAULT_IMAGE_PREPROCESSING;
+    this.elements.inputMaxDimensionInput.value = String(imagePreprocessing.maxDimension);
+    this.elements.inputFormatSelect.value = imagePreprocessing.format;
+    this.elements.inputQualityInput.value = String(imagePreprocessing.quality);
+  }
+
+  getProviderSettings() {
+    return {
+      providerId: this.elements.providerSelect.value,
+      apiKey: this.elements.apiKeyInput.value.trim(),
+      baseUrl: this.elements.baseUrlInput.value.trim(),
+    };
+  }
+
+  async populateTemplateSelect(selectedValue: string = "") {
+    const entries = await this.listTemplates();
+    const select = this.elements.templateSelect;
+    select.innerHTML = '<option value="">Select a template...</option>';
+
+    const builtInGroup = document.createElement("optgroup");
+    builtInGroup.label = "Built-in";
+    const userGroup = document.createElement("optgroup");
+    userGroup.label = "My templates";
+    for (const { value, name, isUserTemplate } of entries) {
       const option = document.createElement("option");
-      option.value = key;
-      option.textContent = key.replace(/([A-Z])/g, " $1").replace(/^./, (str) => str.toUpperCase()); // Capitalize and space
-      this.elements.templateSelect.appendChild(option);
+      option.value = value;
+      option.textContent = name;
+      (isUserTemplate ? userGroup : builtInGroup).appendChild(option);
+    }
+    select.appendChild(builtInGroup);
+    if (userGroup.children.length > 0) select.appendChild(userGroup);
+
+    select.value = selectedValue;
+  }
+
+  /**
+   * Lists the built-in templates in their registered order, then the user's templates by name.
+   * @returns {Promise<{ value: string; name: string; isUserTemplate: boolean; template: Template }[]>} `value` is the select value.
+   */
+  async listTemplates(): Promise<{ value: string; name: string; isUserTemplate: boolean; template: Template }[]> {
+    const builtIn = await Promise.all(
+      Object.entries(asyncTemplates).map(async ([key, templateModule]) => {
+        const { template } = await templateModule;
+        return { value: key, name: template.name ?? key, isUserTemplate: false, template };
+      })
+    );
+    const user = Object.entries(this.userTemplates)
+      .map(([name, template]) => ({ value: GeminiImageManipulator.USER_TEMPLATE_PREFIX + name, name, isUserTemplate: true, template }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return [...builtIn, ...user];
+  }
+
+  // --- Template Gallery ---
+
+  openTemplateGallery() {
+    this.elements.templateGallerySearchInput.value = "";
+    this.renderTemplateGallery();
+    this.elements.templateGallery.showModal();
+    this.elements.templateGallerySearchInput.focus();
+  }
+
+  async renderTemplateGallery() {
+    const query = this.elements.templateGallerySearchInput.value;
+    const entries = (await this.listTemplates()).filter((entry) => GeminiImageManipulator.matchesTemplateSearch(entry.name, entry.template, query));
+
+    const list = this.elements.templateGalleryList;
+    list.innerHTML = "";
+    if (entries.length === 0) {
+      list.innerHTML = "<p>No templates match the search</p>";
+      return;
+    }
+    for (const entry of entries) {
+      list.appendChild(this.createTemplateCard(entry.value, entry.name, entry.template));
+    }
+  }
+
+  /**
+   * Creates a gallery card showing a template's thumbnail and metadata; clicking it loads the template.
+   * @param {string} value The template's select value
+   * @param {string} name
+   * @param {Template} template
+   * @returns {HTMLElement}
+   */
+  createTemplateCard(value: string, name: string, template: Template): HTMLElement {
+    const card = document.createElement("button");
+    card.className = "template-card";
+    card.title = `Load ${name}`;
+    card.addEventListener("click", async () => {
+      this.elements.templateGallery.close();
+      this.elements.templateSelect.value = value;
+      await this.loadTemplate(value);
+    });
+
+    const thumbnailUrl = template.thumbnail ?? template.messages.map((msg) => msg.images?.[0] ?? msg.image).find((image) => image)?.dataUrl;
+    if (thumbnailUrl) {
+      const thumbnail = document.createElement("img");
+      thumbnail.src = thumbnailUrl;
+      thumbnail.alt = "";
+      card.appendChild(thumbnail);
+    }
+
+    const title = document.createElement("div");
+    title.className = "template-card-name";
+    title.textContent = name;
+    card.appendChild(title);
+
+    const details = [
+      template.author,
+      template.version && `v${template.version}`,
+      template.modality && `${template.modality} output`,
+      template.steps?.length && `${template.steps.length}-step pipeline`,
+    ];
+    const meta = document.createElement("div");
+    meta.className = "template-card-meta";
+    meta.textContent = details.filter(Boolean).join(" · ");
+    card.appendChild(meta);
+
+    if (template.description) {
+      const description = document.createElement("div");
+      description.className = "template-card-description";
+      description.textContent = template.description;
+      card.appendChild(description);
+    }
+
+    if (template.tags?.length) {
+      const tags = document.createElement("div");
+      tags.className = "template-card-tags";
+      for (const tag of template.tags) {
+        const chip = document.createElement("span");
+        chip.className = "output-tag";
+        chip.textContent = tag;
+        tags.appendChild(chip);
+      }
+      card.appendChild(tags);
+    }
+
+    return card;
+  }
+
+  /**
+   * Marks the generate button for the template's output as the primary action and focuses it, so Enter runs it.
+   * @param {Modality | null} modality Null makes neither primary
+   */
+  setPrimaryModality(modality: Modality | null) {
+    this.primaryModality = modality;
+    this.elements.generateImageButton.classList.toggle("primary", modality === "image");
+    this.elements.generateTextButton.classList.toggle("primary", modality === "text");
+  }
+
+  /**
+   * Looks up a template by its select value, which is either a built-in key or a prefixed user template name.
+   * @param {string} templateName
+   * @returns {Promise<Template | undefined>}
+   */
+  async getTemplate(templateName: string): Promise<Template | undefined> {
+    if (templateName.startsWith(GeminiImageManipulator.USER_TEMPLATE_PREFIX)) {
+      return this.userTemplates[templateName.slice(GeminiImageManipulator.USER_TEMPLATE_PREFIX.length)];
     }
+    const templateModule = await asyncTemplates[templateName];
+    return templateModule?.template;
   }
 
   async loadTemplate(templateName: string) {
     try {
-      const templateModule = await asyncTemplates[templateName];
-      const template = templateModule.template;
+      const template = await this.getTemplate(templateName);
+      if (!template) throw new Error(`Template not found: ${templateName}`);
+
+      this.recordHistory("Load template", { state: this.captureWorkbench(true) });
 
       // Clear current messages
       this.messages = [];
       this.nextId = 1;
 
+      // Reset variables to the template's declarations and defaults
+      this.variables = template.variables ?? [];
+      this.variableValues = Object.fromEntries(
+        this.variables.filter((variable) => variable.default !== undefined).map((variable) => [variable.name, variable.default!])
+      );
+
       // Set system message
       const systemMsg = template.messages.find((m) => m.role === "system");
       if (systemMsg) {
@@ -207,49 +1126,214 @@ class GeminiImageManipulator {
         this.saveSystemMessage(systemMsg.text);
       }
 
-      // Add user messages
-      for (const msg of template.messages.filter((m) => m.role !== "system")) {
+      // Replace the response schema, clearing it for free-text templates
+      const schemaText = template.responseSchema ? JSON.stringify(template.responseSchema, null, 2) : "";
+      this.setResponseSchemaText(schemaText);
+      this.saveResponseSchema(schemaText);
+
+      // Replace the pipeline, clearing it for single-step templates
+      const pipelineText = template.steps ? JSON.stringify(template.steps, null, 2) : "";
+      this.setPipelineText(pipelineText);
+      this.savePipeline(pipelineText);
+
+      // Apply the template's model settings over the current ones
+      if (template.settings) {
+        const current = this.getGenerationSettings();
+        this.setGenerationSettings({ ...current, ...template.settings, config: { ...current.config, ...template.settings.config } });
+        this.saveGenerationSettings();
+      }
+
+      // Preselect the generate action for the template's output
+      this.setPrimaryModality(template.modality ?? null);
+      this.savePrimaryModality();
+      if (template.modality) {
+        const button = template.modality === "image" ? this.elements.generateImageButton : this.elements.generateTextButton;
+        button.focus({ preventScroll: true });
+      }
+
+      // Add user and model messages, keeping their roles
+      for (const msg of template.messages) {
+        if (msg.role === "system") continue;
         const id = String(this.nextId++);
-        let image = null;
-        if (msg.image) {
-          // Convert dataUrl to blob
-          const response = await fetch(msg.image.dataUrl);
-          const blob = await response.blob();
-          const mimeType = blob.type;
-          const dataUrl = msg.image.dataUrl;
-          image = { blob, mimeType, dataUrl };
-        }
-        this.messages.push({ id, text: msg.text, image });
+        const images = await Promise.all(
+          (msg.images ?? (msg.image ? [msg.image] : [])).map(async ({ dataUrl }) => {
+            // Convert dataUrl to blob
+            const blob = await GeminiImageManipulator.dataUrlToBlob(dataUrl);
+            return { blob, mimeType: blob.type, dataUrl };
+          })
+        );
+        this.messages.push({ id, role: msg.role, text: msg.text, images });
       }
 
       this.renderMessages();
+      this.renderVariables(true);
       this.saveMessages();
+      this.saveVariables();
     } catch (error) {
       console.error("Error loading template:", error);
       alert("Failed to load template.");
     }
   }
 
+  /**
+   * Captures the current workbench as a Template, embedding images as data URLs.
+   * @returns {Template}
+   */
+  createTemplateFromWorkbench(): Template {
+    const messages: Template["messages"] = [];
+
+    const systemMsg = this.elements.systemMessage.value.trim();
+    if (systemMsg) {
+      messages.push({ role: "system", text: systemMsg, image: null });
+    }
+
+    for (const message of this.messages) {
+      messages.push({
+        role: message.role,
+        text: message.text,
+        image: message.images.length > 0 ? { dataUrl: message.images[0].dataUrl } : null,
+        images: message.images.length > 1 ? message.images.map((image) => ({ dataUrl: image.dataUrl })) : undefined,
+      });
+    }
+
+    // Declare every variable in use, with its current value as the default
+    const variables = this.getResolvedVariables().map((variable) => {
+      const value = this.variableValues[variable.name] ?? variable.default;
+      return value === undefined ? variable : { ...variable, default: value };
+    });
+
+    // Empty model names stay in, so loading the template switches to the provider's default model too
+    const { imageModel, textModel, config } = this.getGenerationSettings();
+    const template: Template = { settings: { imageModel, textModel, config }, messages };
+    if (this.primaryModality) template.modality = this.primaryModality;
+    if (variables.length > 0) template.variables = variables;
+
+    const responseSchema = this.getResponseSchema();
+    if (responseSchema) template.responseSchema = responseSchema;
+
+    const steps = this.getPipeline();
+    if (steps?.length) template.steps = steps;
+
+    return template;
+  }
+
+  saveCurrentAsTemplate() {
+    const name = prompt("Template name:")?.trim();
+    if (!name) return;
+
+    if (this.userTemplates[name] && !confirm(`A template named "${name}" already exists. Overwrite it?`)) {
+      return;
+    }
+
+    const template = this.createTemplateFromWorkbench();
+    const description = prompt("Description (optional):")?.trim();
+    if (description) template.description = description;
+    const tags = GeminiImageManipulator.parseTags(prompt("Tags, comma-separated (optional):") ?? "");
+    if (tags.length > 0) template.tags = tags;
+    const author = prompt("Author (optional):")?.trim();
+    if (author) template.author = author;
+
+    this.userTemplates[name] = template;
+    this.saveUserTemplates();
+    this.populateTemplateSelect(GeminiImageManipulator.USER_TEMPLATE_PREFIX + name);
+  }
+
+  async exportTemplate() {
+    const value = this.elements.templateSelect.value;
+    if (!value) {
+      alert("Please select a template to export.");
+      return;
+    }
+
+    const template = await this.getTemplate(value);
+    if (!template) return;
+
+    const name = this.elements.templateSelect.selectedOptions[0]?.textContent ?? "template";
+    const blob = new Blob([JSON.stringify(template, null, 2)], { type: "application/json" });
+    GeminiImageManipulator.downloadBlob(blob, `${GeminiImageManipulator.toFileName(name)}.json`);
+  }
+
+  importTemplate() {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".json,application/json";
+    fileInput.style.display = "none";
+    fileInput.addEventListener("change", async (e) => {
+      const file = (e.target as HTMLInputElement).files![0];
+      if (!file) return;
+
+      try {
+        const template = parseTemplate(JSON.parse(await file.text()));
+        const name = prompt("Template name:", file.name.replace(/\.json$/i, ""))?.trim();
+        if (!name) return;
+
+        if (this.userTemplates[name] && !confirm(`A template named "${name}" already exists. Overwrite it?`)) {
+          return;
+        }
+
+        this.userTemplates[name] = template;
+        this.saveUserTemplates();
+        this.populateTemplateSelect(this.elements.templateSelect.value);
+      } catch (error) {
+        console.error("Error importing template:", error);
+        alert(`Failed to import template: ${(error as Error).message}`);
+      }
+    });
+    document.body.appendChild(fileInput);
+    fileInput.click();
+    document.body.removeChild(fileInput);
+  }
+
+  deleteUserTemplate() {
+    const value = this.elements.templateSelect.value;
+    if (!value.startsWith(GeminiImageManipulator.USER_TEMPLATE_PREFIX)) {
+      alert("Please select one of your templates to delete.");
+      return;
+    }
+
+    const name = value.slice(GeminiImageManipulator.USER_TEMPLATE_PREFIX.length);
+    if (!confirm(`Delete template "${name}"?`)) return;
+
+    delete this.userTemplates[name];
+    this.saveUserTemplates();
+    this.populateTemplateSelect();
+  }
+
   // --- Message Management ---
 
   addItem() {
+    this.recordHistory("Add message item");
     const id = String(this.nextId++);
     this.messages.push({
       id,
+      role: "user",
       text: "",
-      image: null,
+      images: [],
     });
     this.renderMessages();
     this.saveMessages();
   }
 
+  toggleMessageRole(id: string) {
+    const message = this.messages.find((msg) => msg.id === id);
+    if (message) {
+      this.recordHistory("Change message role");
+      message.role = message.role === "user" ? "model" : "user";
+      this.renderMessages();
+      this.saveMessages();
+    }
+  }
+
   deleteMessage(id: string) {
+    this.recordHistory("Delete message item");
     this.messages = this.messages.filter((msg) => msg.id !== id);
     this.renderMessages();
     this.saveMessages();
   }
 
   deleteAllMessages() {
+    if (this.messages.length === 0) return;
+    this.recordHistory("Delete all message items");
     this.messages = [];
     this.renderMessages();
     this.saveMessages();
@@ -258,218 +1342,1950 @@ class GeminiImageManipulator {
   updateMessageText(id: string, text: string) {
     const message = this.messages.find((msg) => msg.id === id);
     if (message) {
+      this.recordHistory("Edit message text", { coalesceKey: `message:${id}` });
       message.text = text;
       this.saveMessages();
+      this.renderVariables();
     }
   }
 
-  async updateMessageImage(id: string, file: File) {
-    if (!file.type.startsWith("image/")) return;
-
+  /**
+   * Appends images to a message item, after preprocessing them.
+   * @param {string} id
+   * @param {Blob[]} files Files that are not images are ignored
+   */
+  async addMessageImages(id: string, files: Blob[]) {
+    const images = await this.createMessageImages(files);
     const message = this.messages.find((msg) => msg.id === id);
-    if (message) {
-      const blob = file;
-      const mimeType = file.type;
-      const dataUrl = await GeminiImageManipulator.blobToDataUrl(blob);
-
-      message.image = {
-        blob,
-        mimeType,
-        dataUrl,
-      };
+    if (!message || images.length === 0) return;
 
-      this.renderMessages();
-      this.saveMessages();
-    }
+    this.recordHistory(images.length === 1 ? "Add image" : `Add ${images.length} images`);
+    message.images.push(...images);
+    this.renderMessages();
+    this.saveMessages();
   }
 
-  // --- Output Management ---
+  /**
+   * @param {string} id
+   * @param {number} index
+   */
+  removeMessageImage(id: string, index: number) {
+    const message = this.messages.find((msg) => msg.id === id);
+    if (!message?.images[index]) return;
+
+    this.recordHistory("Remove image");
+    message.images.splice(index, 1);
+    this.renderMessages();
+    this.saveMessages();
+  }
+
+  /**
+   * @param {MessageItem} message
+   * @param {number} index
+   * @param {Blob} blob An image that has been preprocessed already
+   * @param {string} label The undo history label
+   * @param {ImageAnnotation} [annotation] Marks for the new image, in its pixels
+   */
+  async replaceMessageImage(message: MessageItem, index: number, blob: Blob, label: string, annotation?: ImageAnnotation) {
+    const dataUrl = await GeminiImageManipulator.blobToDataUrl(blob);
+
+    this.recordHistory(label);
+    message.images[index] = {
+      blob,
+      mimeType: blob.type,
+      dataUrl,
+      annotation,
+    };
+
+    this.renderMessages();
+    this.saveMessages();
+  }
+
+  /**
+   * Preprocesses image files one at a time, as large photos take a lot of memory to decode.
+   * @param {Blob[]} files Files that are not images are skipped
+   * @returns {Promise<MessageImage[]>}
+   */
+  async createMessageImages(files: Blob[]): Promise<MessageImage[]> {
+    const images: MessageImage[] = [];
+    for (const file of files) {
+      if (!file.type.startsWith("image/")) continue;
+      const blob = await this.preprocessInputImage(file);
+      images.push({ blob, mimeType: blob.type, dataUrl: await GeminiImageManipulator.blobToDataUrl(blob) });
+    }
+    return images;
+  }
+
+  /**
+   * Adds files dropped from the desktop. Images go into the target item, or into a new item when dropped on the list;
+   * each text file becomes a text item of its own.
+   * @param {File[]} files
+   * @param {string} [targetId] The message item the files were dropped on
+   */
+  async importDroppedFiles(files: File[], targetId?: string) {
+    const textFiles = files.filter((file) => GeminiImageManipulator.isTextFile(file));
+    const images = await this.createMessageImages(files);
+    if (images.length === 0 && textFiles.length === 0) {
+      alert("Only image and text files can be added to the message list.");
+      return;
+    }
+
+    const textItems: MessageItem[] = [];
+    for (const file of textFiles) {
+      textItems.push({ id: String(this.nextId++), role: "user", text: await file.text(), images: [] });
+    }
+
+    this.recordHistory("Add dropped files");
+    const target = this.messages.find((msg) => msg.id === targetId);
+    if (target) {
+      target.images.push(...images);
+      this.messages.splice(this.messages.indexOf(target) + 1, 0, ...textItems);
+    } else {
+      if (images.length > 0) this.messages.push({ id: String(this.nextId++), role: "user", text: "", images });
+      this.messages.push(...textItems);
+    }
+    this.renderMessages();
+    this.renderVariables();
+    this.saveMessages();
+  }
+
+  /**
+   * Applies the preprocessing settings to a pasted or uploaded image. Images the browser cannot decode are kept as they are,
+   * as the provider may still accept them.
+   * @param {Blob} file
+   * @param {ImageTransform} [transform] Crop and rotation from the image editor
+   * @returns {Promise<Blob>}
+   */
+  async preprocessInputImage(file: Blob, transform?: ImageTransform): Promise<Blob> {
+    const options = this.getGenerationSettings().imagePreprocessing ?? DEFAULT_IMAGE_PREPROCESSING;
+    try {
+      return await preprocessImage(file, options, transform);
+    } catch (error) {
+      if (transform) throw error;
+      console.warn("Could not preprocess image, using it as is:", error);
+      return file;
+    }
+  }
+
+  // --- Image Editor ---
+
+  /**
+   * @param {string} messageId
+   * @param {number} imageIndex
+   */
+  async openImageEditor(messageId: string, imageIndex: number) {
+    const image = this.messages.find((msg) => msg.id === messageId)?.images[imageIndex];
+    if (!image) return;
+
+    try {
+      const bitmap = await decodeImage(image.blob);
+      this.imageEditorState = { messageId, imageIndex, bitmap, transform: { rotation: 0 }, dragStart: null };
+      this.renderImageEditor();
+      this.elements.imageEditor.showModal();
+    } catch (error) {
+      console.error("Error opening image editor:", error);
+      alert(`Failed to open the image: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Draws the rotated image scaled to fit the dialog, dimming everything outside the crop.
+   */
+  renderImageEditor() {
+    const state = this.imageEditorState;
+    if (!state) return;
+
+    const preview = drawImage(state.bitmap, { rotation: state.transform.rotation }, GeminiImageManipulator.IMAGE_EDITOR_SIZE);
+    const canvas = this.elements.imageEditorCanvas;
+    canvas.width = preview.width;
+    canvas.height = preview.height;
+    const context = canvas.getContext("2d")!;
+    context.drawImage(preview, 0, 0);
+
+    const crop = state.transform.crop;
+    if (crop) {
+      const scale = canvas.width / rotatedSize(state.bitmap, state.transform.rotation).width;
+      const [x, y, width, height] = [crop.x * scale, crop.y * scale, crop.width * scale, crop.height * scale];
+      context.fillStyle = "rgba(0, 0, 0, 0.5)";
+      context.beginPath();
+      context.rect(0, 0, canvas.width, canvas.height);
+      context.rect(x, y, width, height);
+      context.fill("evenodd");
+      context.strokeStyle = "#fff";
+      context.lineWidth = 2;
+      context.strokeRect(x, y, width, height);
+    }
+  }
+
+  /**
+   * Drag on the preview to select the crop rectangle.
+   * @param {PointerEvent} e
+   */
+  handleImageEditorPointer(e: PointerEvent) {
+    const state = this.imageEditorState;
+    if (!state) return;
+
+    const canvas = this.elements.imageEditorCanvas;
+    const size = rotatedSize(state.bitmap, state.transform.rotation);
+    const bounds = canvas.getBoundingClientRect();
+    const point = {
+      x: Math.min(Math.max(((e.clientX - bounds.left) / bounds.width) * size.width, 0), size.width),
+      y: Math.min(Math.max(((e.clientY - bounds.top) / bounds.height) * size.height, 0), size.height),
+    };
+
+    if (e.type === "pointerdown") {
+      canvas.setPointerCapture(e.pointerId);
+      state.dragStart = point;
+      return;
+    }
+    if (!state.dragStart) return;
+
+    const crop = {
+      x: Math.round(Math.min(state.dragStart.x, point.x)),
+      y: Math.round(Math.min(state.dragStart.y, point.y)),
+      width: Math.round(Math.abs(point.x - state.dragStart.x)),
+      height: Math.round(Math.abs(point.y - state.dragStart.y)),
+    };
+    // A click without a drag clears the crop
+    state.transform.crop = crop.width > 1 && crop.height > 1 ? crop : undefined;
+    if (e.type === "pointerup") state.dragStart = null;
+    this.renderImageEditor();
+  }
+
+  /**
+   * @param {number} quarterTurns Clockwise; negative to rotate left
+   */
+  rotateEditorImage(quarterTurns: number) {
+    const state = this.imageEditorState;
+    if (!state) return;
+    // The crop is in rotated pixels, so it no longer applies
+    state.transform = { rotation: (state.transform.rotation + quarterTurns + 4) % 4 };
+    this.renderImageEditor();
+  }
+
+  resetEditorImage() {
+    if (!this.imageEditorState) return;
+    this.imageEditorState.transform = { rotation: 0 };
+    this.renderImageEditor();
+  }
+
+  async applyImageEditor() {
+    const state = this.imageEditorState;
+    const message = this.messages.find((msg) => msg.id === state?.messageId);
+    const image = state && message?.images[state.imageIndex];
+    if (!state || !message || !image) return;
+
+    if (state.transform.rotation !== 0 || state.transform.crop) {
+      try {
+        const blob = await this.preprocessInputImage(image.blob, state.transform);
+        // Keep the marks on the content they were drawn on
+        let annotation: ImageAnnotation | undefined;
+        if (image.annotation) {
+          const result = await decodeImage(blob);
+          const croppedWidth = state.transform.crop?.width ?? rotatedSize(state.bitmap, state.transform.rotation).width;
+          annotation = transformAnnotation(image.annotation, state.transform, state.bitmap, result.width / croppedWidth);
+          result.close();
+        }
+        await this.replaceMessageImage(message, state.imageIndex, blob, "Edit image", annotation);
+      } catch (error) {
+        console.error("Error editing image:", error);
+        alert(`Failed to edit the image: ${(error as Error).message}`);
+        return;
+      }
+    }
+    this.elements.imageEditor.close();
+  }
+
+  closeImageEditor() {
+    this.imageEditorState?.bitmap.close();
+    this.imageEditorState = null;
+  }
+
+  // --- Annotation Editor ---
+
+  /**
+   * @param {string} messageId
+   * @param {number} imageIndex
+   */
+  async openAnnotationEditor(messageId: string, imageIndex: number) {
+    const image = this.messages.find((msg) => msg.id === messageId)?.images[imageIndex];
+    if (!image) return;
+
+    try {
+      const bitmap = await decodeImage(image.blob);
+      const annotation = image.annotation;
+      this.annotationEditorState = {
+        messageId,
+        imageIndex,
+        bitmap,
+        shapes: [...(annotation?.shapes ?? [])],
+        tool: "stroke",
+        drawing: null,
+      };
+      this.elements.annotationModeSelect.value = annotation?.mode ?? "composite";
+      this.setAnnotationTool("stroke");
+      this.elements.annotationEditor.showModal();
+    } catch (error) {
+      console.error("Error opening annotation editor:", error);
+      alert(`Failed to open the image: ${(error as Error).message}`);
+    }
+  }
+
+  renderAnnotationEditor() {
+    const state = this.annotationEditorState;
+    if (!state) return;
+
+    const { bitmap } = state;
+    const scale = Math.min(1, GeminiImageManipulator.IMAGE_EDITOR_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = this.elements.annotationCanvas;
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext("2d")!;
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    const shapes = state.drawing ? [...state.shapes, state.drawing] : state.shapes;
+    drawAnnotations(context, shapes, annotationLineWidth(bitmap.width, bitmap.height));
+  }
+
+  /**
+   * @param {AnnotationTool} tool
+   */
+  setAnnotationTool(tool: AnnotationTool) {
+    if (!this.annotationEditorState) return;
+    this.annotationEditorState.tool = tool;
+    this.elements.annotationToolButtons.forEach((button) => button.classList.toggle("active", button.dataset.tool === tool));
+    this.renderAnnotationEditor();
+  }
+
+  /**
+   * @param {(shapes: AnnotationShape[]) => AnnotationShape[]} update
+   */
+  editAnnotationShapes(update: (shapes: AnnotationShape[]) => AnnotationShape[]) {
+    if (!this.annotationEditorState) return;
+    this.annotationEditorState.shapes = update(this.annotationEditorState.shapes);
+    this.renderAnnotationEditor();
+  }
+
+  /**
+   * Draws the current tool's shape while dragging, or asks for a label where the text tool is clicked.
+   * @param {PointerEvent} e
+   */
+  handleAnnotationPointer(e: PointerEvent) {
+    const state = this.annotationEditorState;
+    if (!state) return;
+
+    const canvas = this.elements.annotationCanvas;
+    const bounds = canvas.getBoundingClientRect();
+    const point = {
+      x: Math.round(((e.clientX - bounds.left) / bounds.width) * state.bitmap.width),
+      y: Math.round(((e.clientY - bounds.top) / bounds.height) * state.bitmap.height),
+    };
+    const color = this.elements.annotationColorInput.value;
+
+    if (e.type === "pointerdown") {
+      if (state.tool === "text") {
+        const text = prompt("Label text:")?.trim();
+        if (text) this.editAnnotationShapes((shapes) => [...shapes, { kind: "text", color, at: point, text }]);
+        return;
+      }
+      canvas.setPointerCapture(e.pointerId);
+      state.drawing = state.tool === "stroke" ? { kind: "stroke", color, points: [point] } : { kind: state.tool, color, from: point, to: point };
+    } else if (state.drawing) {
+      if (state.drawing.kind === "stroke") {
+        state.drawing.points.push(point);
+      } else if (state.drawing.kind !== "text") {
+        state.drawing.to = point;
+      }
+      if (e.type === "pointerup") {
+        state.shapes.push(state.drawing);
+        state.drawing = null;
+      }
+    }
+    this.renderAnnotationEditor();
+  }
+
+  saveAnnotation() {
+    const state = this.annotationEditorState;
+    const message = this.messages.find((msg) => msg.id === state?.messageId);
+    const image = state && message?.images[state.imageIndex];
+    if (!state || !message || !image) return;
+
+    this.recordHistory("Annotate image");
+    const mode = this.elements.annotationModeSelect.value as "composite" | "mask";
+    message.images[state.imageIndex] = { ...image, annotation: state.shapes.length > 0 ? { shapes: state.shapes, mode } : undefined };
+    this.renderMessages();
+    this.saveMessages();
+    this.elements.annotationEditor.close();
+  }
+
+  closeAnnotationEditor() {
+    this.annotationEditorState?.bitmap.close();
+    this.annotationEditorState = null;
+  }
+
+  /**
+   * Appends a generated output to the message list as a model turn, so the conversation can continue from it.
+   * @param {string} id
+   */
+  async continueConversation(id: string) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (!output || output.loading) return;
+
+    await this.addMessageFromOutput(output, "model", true);
+  }
+
+  /**
+   * Turns an output's image, and optionally its text, into a new user message item for iterative refinement.
+   * @param {string} id
+   */
+  async useOutputAsInput(id: string) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (!output || output.loading) return;
+
+    // Text-only outputs are used as-is; for images the text is usually just commentary
+    const hasImage = output.imageId !== null;
+    const includeText = !hasImage || (!!output.text.trim() && confirm("Include the output text in the new message item?"));
+
+    await this.addMessageFromOutput(output, "user", includeText);
+  }
+
+  async addMessageFromOutput(output: OutputItem, role: MessageRole, includeText: boolean) {
+    // Store the image the same way as an upload
+    const blob = output.imageId ? await getImage(this.store, output.imageId) : undefined;
+    const images = blob ? [{ blob, mimeType: blob.type, dataUrl: await GeminiImageManipulator.blobToDataUrl(blob) }] : [];
+
+    this.recordHistory("Add message item from output");
+    this.messages.push({
+      id: String(this.nextId++),
+      role,
+      text: includeText ? output.text : "",
+      images,
+      sourceOutputId: output.id,
+    });
+    this.renderMessages();
+    this.saveMessages();
+  }
+
+  // --- Output Lineage ---
+
+  /**
+   * Walks the derivedFrom links back from an output, listing the earlier output ids in its edit chain.
+   * @param {OutputItem} output
+   * @returns {string[]} Nearest ancestor first; ends at a root or at an output that no longer exists.
+   */
+  getOutputLineage(output: OutputItem): string[] {
+    const lineage: string[] = [];
+    let parentId = output.derivedFrom;
+    while (parentId && !lineage.includes(parentId)) {
+      lineage.push(parentId);
+      parentId = this.outputs.find((o) => o.id === parentId)?.derivedFrom;
+    }
+    return lineage;
+  }
+
+  scrollToOutput(id: string) {
+    const element = document.querySelector<HTMLElement>(`.output-item[data-id="${id}"]`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    element.classList.add("highlight");
+    setTimeout(() => element.classList.remove("highlight"), 1500);
+  }
+
+  // --- Template Variables ---
+
+  /**
+   * Returns the variables used by the system message and message items, with declarations from the loaded template.
+   * @returns {TemplateVariable[]}
+   */
+  getResolvedVariables(): TemplateVariable[] {
+    const texts = [
+      this.elements.systemMessage.value,
+      ...this.messages.map((msg) => msg.text),
+      ...(this.getPipeline() ?? []).map((step) => step.prompt),
+    ];
+    return resolveVariables(this.variables, texts).filter((variable) => !isPipelineVariable(variable.name));
+  }
+
+  /**
+   * Returns the value for every variable in use, falling back to declared defaults.
+   * @returns {Record<string, string>}
+   */
+  getVariableValues(): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const variable of this.getResolvedVariables()) {
+      const value = this.variableValues[variable.name] ?? variable.default;
+      if (value !== undefined) values[variable.name] = value;
+    }
+    return values;
+  }
+
+  updateVariableValue(name: string, value: string) {
+    this.recordHistory("Edit variable", { coalesceKey: `variable:${name}` });
+    this.variableValues[name] = value;
+    this.saveVariables();
+  }
+
+  // --- Response Schema ---
+
+  /**
+   * Parses the response schema editor.
+   * @returns {JsonSchema | undefined} The schema, or undefined when the editor is empty or does not hold a JSON object.
+   */
+  getResponseSchema(): JsonSchema | undefined {
+    const text = this.elements.responseSchemaInput.value.trim();
+    if (!text) return undefined;
+    try {
+      const schema = JSON.parse(text);
+      return typeof schema === "object" && schema !== null && !Array.isArray(schema) ? schema : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  setResponseSchemaText(text: string) {
+    this.elements.responseSchemaInput.value = text;
+    if (text) this.elements.responseSchemaPanel.open = true;
+    this.updateResponseSchemaValidity();
+  }
+
+  updateResponseSchemaValidity() {
+    const input = this.elements.responseSchemaInput;
+    const invalid = input.value.trim() !== "" && !this.getResponseSchema();
+    input.classList.toggle("invalid", invalid);
+    input.title = invalid ? "Not a valid JSON object" : "";
+  }
+
+  // --- Pipeline ---
+
+  /**
+   * Parses the pipeline editor.
+   * @returns {PipelineStep[] | undefined} The steps, or undefined when the editor is empty or does not hold valid steps.
+   */
+  getPipeline(): PipelineStep[] | undefined {
+    return this.parsePipelineText().steps;
+  }
+
+  /**
+   * @returns {{ steps?: PipelineStep[]; error?: string }} The steps, or why the editor text is not a valid pipeline. Neither when empty.
+   */
+  parsePipelineText(): { steps?: PipelineStep[]; error?: string } {
+    const text = this.elements.pipelineInput.value.trim();
+    if (!text) return {};
+    try {
+      return { steps: parsePipeline(JSON.parse(text)) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }
+
+  setPipelineText(text: string) {
+    this.elements.pipelineInput.value = text;
+    if (text) this.elements.pipelinePanel.open = true;
+    this.updatePipelineValidity();
+  }
+
+  updatePipelineValidity() {
+    const input = this.elements.pipelineInput;
+    const { steps, error } = this.parsePipelineText();
+    input.classList.toggle("invalid", !!error);
+    input.title = error ?? "";
+    this.elements.runPipelineButton.disabled = !steps?.length;
+  }
+
+  // --- Undo History ---
+
+  /**
+   * Snapshots the editable workbench for undo history.
+   * @param {boolean} [includeSettings] Also snapshot the generation settings and primary modality, for changes that replace them.
+   *   Other changes leave them out, so undoing those keeps settings changed since.
+   * @returns {WorkbenchState}
+   */
+  captureWorkbench(includeSettings = false): WorkbenchState {
+    return {
+      systemMessage: this.elements.systemMessage.value,
+      responseSchema: this.elements.responseSchemaInput.value,
+      pipeline: this.elements.pipelineInput.value,
+      // Unchanged images keep their record, so a snapshot stores only the images that are new since the last one
+      messages: this.messages.map((message) => this.recordMessage(message)),
+      variables: this.variables,
+      variableValues: { ...this.variableValues },
+      ...(includeSettings ? { generationSettings: this.getGenerationSettings(), primaryModality: this.primaryModality } : {}),
+    };
+  }
+
+  /**
+   * Puts a workbench snapshot back on screen and saves it.
+   * @param {WorkbenchState} state
+   */
+  async applyWorkbench(state: WorkbenchState) {
+    this.elements.systemMessage.value = state.systemMessage;
+    this.saveSystemMessage(state.systemMessage.trim());
+    this.setResponseSchemaText(state.responseSchema);
+    this.saveResponseSchema(state.responseSchema.trim());
+    this.setPipelineText(state.pipeline ?? "");
+    this.savePipeline((state.pipeline ?? "").trim());
+
+    this.messages = await Promise.all(
+      state.messages.map(async (msg) => ({ ...msg, images: await GeminiImageManipulator.withDataUrls(await this.loadImages(msg.images)) }))
+    );
+    // Never hand out an id that an undone or redone item may still use
+    this.nextId = Math.max(this.nextId, ...this.messages.map((msg) => parseInt(msg.id) + 1));
+    this.variables = state.variables;
+    this.variableValues = state.variableValues;
+
+    if (state.generationSettings) {
+      this.setGenerationSettings(state.generationSettings);
+      this.saveGenerationSettings();
+    }
+    if (state.primaryModality !== undefined) {
+      this.setPrimaryModality(state.primaryModality);
+      this.savePrimaryModality();
+    }
+
+    this.renderMessages();
+    this.renderVariables(true);
+    this.saveMessages();
+    this.saveVariables();
+  }
+
+  /**
+   * Adds an undo step for a change that is about to be made. Call before changing anything.
+   * @param {string} label Describes the change, shown on the undo and redo buttons
+   * @param {Pick<HistoryEntry, "coalesceKey" | "deletedOutputs"> & { state?: WorkbenchState }} [options]
+   *   `state` overrides the snapshot, for fields whose value has already changed
+   */
+  recordHistory(label: string, options: Pick<HistoryEntry, "coalesceKey" | "deletedOutputs"> & { state?: WorkbenchState } = {}) {
+    const { state = this.captureWorkbench(), ...rest } = options;
+    const { added, dropped } = this.history.record({ label, state, ...rest });
+    // Typing continues the previous entry, so there is nothing new to store
+    if (!added) return;
+    this.discardHistoryEntries(dropped);
+    this.updateHistoryButtons();
+    this.saveHistory();
+  }
+
+  async undo() {
+    // Snapshot the settings too if the entry restores them, so redo can apply them again
+    const entry = this.history.undo(this.captureWorkbench(!!this.history.nextUndo?.state.generationSettings));
+    if (!entry) return;
+
+    await this.applyWorkbench(entry.state);
+
+    if (entry.deletedOutputs) {
+      // Put deleted outputs back where they were, unless already there
+      for (const { index, output } of [...entry.deletedOutputs].sort((a, b) => a.index - b.index)) {
+        if (!this.outputs.some((o) => o.id === output.id)) this.outputs.splice(index, 0, output);
+      }
+      this.renderOutputs();
+      this.saveOutputs();
+    }
+
+    this.updateHistoryButtons();
+    this.saveHistory();
+  }
+
+  async redo() {
+    const entry = this.history.redo(this.captureWorkbench(!!this.history.nextRedo?.state.generationSettings));
+    if (!entry) return;
+
+    await this.applyWorkbench(entry.state);
+
+    if (entry.deletedOutputs) {
+      const ids = new Set(entry.deletedOutputs.map(({ output }) => output.id));
+      for (const output of this.outputs) {
+        if (ids.has(output.id) && output.imageUrl?.startsWith("blob:")) URL.revokeObjectURL(output.imageUrl);
+      }
+      this.outputs = this.outputs.filter((o) => !ids.has(o.id));
+      this.renderOutputs();
+      this.saveOutputs();
+    }
+
+    this.updateHistoryButtons();
+    this.saveHistory();
+  }
+
+  /**
+   * Deletes the stored images of outputs that only the given, no longer reachable, history entries could bring back.
+   * @param {HistoryEntry[]} entries
+   */
+  discardHistoryEntries(entries: HistoryEntry[]) {
+    const entriesLeft = [...this.history.undoStack, ...this.history.redoStack];
+    const reachable = [...this.outputs, ...entriesLeft.flatMap((entry) => entry.deletedOutputs ?? []).map(({ output }) => output)];
+    const keep = new Set(reachable.map((output) => output.imageId));
+
+    for (const { output } of entries.flatMap((entry) => entry.deletedOutputs ?? [])) {
+      if (output.imageId && !keep.has(output.imageId)) deleteImage(this.store, output.imageId);
+    }
+  }
+
+  updateHistoryButtons() {
+    const { undoButton, redoButton } = this.elements;
+    const nextUndo = this.history.nextUndo;
+    const nextRedo = this.history.nextRedo;
+    undoButton.disabled = !nextUndo;
+    undoButton.title = nextUndo ? `Undo: ${nextUndo.label} (Ctrl+Z)` : "Nothing to undo";
+    redoButton.disabled = !nextRedo;
+    redoButton.title = nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Shift+Z)` : "Nothing to redo";
+  }
+
+  // --- Token Usage ---
+
+  /**
+   * Counts the prompt tokens again shortly after the last change to the inputs or settings.
+   */
+  scheduleTokenEstimate() {
+    clearTimeout(this.tokenEstimateTimer);
+    this.tokenEstimateTimer = setTimeout(() => this.updateTokenEstimate(), GeminiImageManipulator.TOKEN_ESTIMATE_DELAY_MS);
+  }
+
+  /**
+   * Counts the prompt tokens of the current inputs for the primary modality's model (text when there is none) with the
+   * provider's count endpoint, or estimates them locally when the provider has none, no API key is set, or the count
+   * fails (e.g. offline).
+   */
+  async updateTokenEstimate() {
+    const version = ++this.tokenEstimateVersion;
+    const inputs = this.captureInputs();
+    if (!inputs.systemMessage && inputs.messages.length === 0) {
+      this.tokenEstimate = null;
+      this.renderUsage();
+      return;
+    }
+
+    const providerSettings = this.getProviderSettings();
+    const provider = createProvider(providerSettings);
+    const settings = this.getGenerationSettings();
+    const modality = this.primaryModality ?? "text";
+    const model = (modality === "image" ? settings.imageModel : settings.textModel) || provider.defaultModels[modality];
+    let estimate: TokenEstimate & { counted: boolean };
+    try {
+      const request = await buildRequest(inputs, { modality, model, config: settings.config }, GeminiImageManipulator.createImageParts);
+      estimate = { ...estimateTokens(request), counted: false };
+
+      const requiresApiKey = PROVIDERS.find((info) => info.id === provider.id)?.requiresApiKey;
+      if (provider.countTokens && navigator.onLine && (providerSettings.apiKey || !requiresApiKey)) {
+        try {
+          estimate = { ...estimate, tokens: await provider.countTokens(request), counted: true };
+        } catch (error) {
+          console.warn("Token count failed, showing a local estimate:", error);
+        }
+      }
+    } catch (error) {
+      console.error("Error estimating tokens:", error);
+      return;
+    }
+
+    if (version !== this.tokenEstimateVersion) return;
+    this.tokenEstimate = estimate;
+    this.renderUsage();
+  }
+
+  renderUsage() {
+    const { usageBar, tokenEstimate, usageTotal } = this.elements;
+    const { tokens, images, since, budget } = this.usage;
+
+    const estimate = this.tokenEstimate;
+    if (estimate) {
+      const imageCount = estimate.images > 0 ? ` · ${estimate.images} image${estimate.images > 1 ? "s" : ""}` : "";
+      tokenEstimate.textContent = `Prompt: ${estimate.counted ? "" : "~"}${estimate.tokens.toLocaleString()} tokens${imageCount}`;
+      tokenEstimate.title = estimate.counted
+        ? "Counted by the provider, per generation"
+        : "Local estimate per generation: about 4 characters per token and 258 tokens per image";
+    } else {
+      tokenEstimate.textContent = "Prompt: 0 tokens";
+      tokenEstimate.title = "";
+    }
+
+    const ratio = budget > 0 ? tokens / budget : 0;
+    const parts = [`Used: ${tokens.toLocaleString()}${budget > 0 ? ` of ${budget.toLocaleString()}` : ""} tokens`, `${images} images`];
+    if (ratio >= 1) {
+      parts.push("budget used up");
+    } else if (ratio >= GeminiImageManipulator.BUDGET_WARNING_RATIO) {
+      parts.push(`${Math.round(ratio * 100)}% of budget`);
+    }
+    usageTotal.textContent = parts.join(" · ");
+    usageTotal.title = `Since ${new Date(since).toLocaleString()}, including retries and failed or cancelled attempts the provider reported usage for`;
+
+    usageBar.classList.toggle("warning", ratio >= GeminiImageManipulator.BUDGET_WARNING_RATIO && ratio < 1);
+    usageBar.classList.toggle("exceeded", ratio >= 1);
+  }
+
+  /**
+   * Records the usage of one generation attempt on its output and adds it to the workspace total.
+   * @param {string} outputId
+   * @param {TokenUsage} usage
+   * @param {number} images Images generated
+   */
+  recordUsage(outputId: string, usage: TokenUsage, images: number) {
+    // A generation that finishes after its workspace was closed counts towards no other workspace
+    const output = this.outputs.find((o) => o.id === outputId);
+    if (!output) return;
+    output.usage = usage;
+
+    this.usage.tokens += usage.totalTokens;
+    this.usage.images += images;
+    this.renderUsage();
+    this.saveUsage();
+  }
+
+  /**
+   * @param {number} budget Token limit; NaN or 0 removes it
+   */
+  setTokenBudget(budget: number) {
+    this.usage.budget = Number.isFinite(budget) && budget > 0 ? Math.floor(budget) : 0;
+    this.renderUsage();
+    this.saveUsage();
+  }
+
+  resetUsage() {
+    if (!confirm("Reset the token and image count of this workspace to zero?")) return;
+    this.usage = { ...GeminiImageManipulator.createUsageTotal(), budget: this.usage.budget };
+    this.renderUsage();
+    this.saveUsage();
+  }
+
+  /**
+   * @returns {boolean} Whether the workspace has used its whole token budget.
+   */
+  isOverBudget(): boolean {
+    return this.usage.budget > 0 && this.usage.tokens >= this.usage.budget;
+  }
+
+  /**
+   * Blocks generation once the budget is used up, and asks before generations whose prompts alone may exceed what is left.
+   * @param {number} generations How many generations are about to start
+   * @returns {boolean} Whether to go ahead.
+   */
+  confirmWithinBudget(generations: number): boolean {
+    const { tokens, budget } = this.usage;
+    if (budget <= 0) return true;
+
+    if (this.isOverBudget()) {
+      alert(
+        `This workspace has used its token budget (${tokens.toLocaleString()} of ${budget.toLocaleString()} tokens). Raise the budget or reset the count to continue.`
+      );
+      return false;
+    }
+
+    const promptTokens = (this.tokenEstimate?.tokens ?? 0) * generations;
+    if (tokens + promptTokens > budget) {
+      return confirm(
+        `${generations} generation(s) will send about ${promptTokens.toLocaleString()} prompt tokens, more than the ${(budget - tokens).toLocaleString()} left in the budget. Generation stops once the budget is used up. Continue?`
+      );
+    }
+    return true;
+  }
+
+  // --- Provenance ---
+
+  /**
+   * Snapshots the system message, message items and variable values that a generation will use.
+   * @returns {InputSnapshot}
+   */
+  captureInputs(): InputSnapshot {
+    // Stored now, so each image is stored once however many outputs record it
+    this.messages.forEach((message) => message.images.forEach((image) => this.storeImage(image)));
+    return {
+      systemMessage: this.elements.systemMessage.value.trim(),
+      messages: this.messages.map(GeminiImageManipulator.toStoredMessage),
+      variableValues: this.getVariableValues(),
+      responseSchema: this.getResponseSchema(),
+    };
+  }
+
+  /**
+   * Refers to an image by its image record, storing the image first if it has none yet.
+   * @param {Omit<MessageImage, "dataUrl">} image Gets the id of the new record
+   * @returns {StoredImage}
+   */
+  storeImage(image: Omit<MessageImage, "dataUrl">): StoredImage {
+    if (!image.imageId) {
+      image.imageId = crypto.randomUUID();
+      setImage(this.store, image.imageId, image.blob).catch((error) => console.error("Error storing input image:", error));
+    }
+    return { imageId: image.imageId, mimeType: image.mimeType, annotation: image.annotation };
+  }
+
+  /**
+   * Converts a snapshot message for provenance, referring to its images by image record.
+   * @param {InputSnapshot["messages"][number]} message
+   * @returns {RecordedMessage}
+   */
+  recordMessage(message: InputSnapshot["messages"][number]): RecordedMessage {
+    return { ...message, images: message.images.map((image) => this.storeImage(image)) };
+  }
+
+  /**
+   * Reads recorded images back from their image records. Images whose record is gone are left out.
+   * @param {StoredImage[]} images
+   * @returns {Promise<Omit<MessageImage, "dataUrl">[]>}
+   */
+  async loadImages(images: StoredImage[]): Promise<Omit<MessageImage, "dataUrl">[]> {
+    const loaded = await Promise.all(images.map(async (image) => ({ ...image, blob: await getImage(this.store, image.imageId) })));
+    return loaded.filter((image): image is typeof image & { blob: Blob } => !!image.blob);
+  }
+
+  /**
+   * Loads the inputs recorded on an output back into the message editor.
+   * @param {string} id
+   */
+  async restoreInputs(id: string) {
+    const provenance = this.outputs.find((o) => o.id === id)?.provenance;
+    if (!provenance) return;
 
-  addOutput(showImage: boolean = true) {
-    const id = String(this.nextOutputId++);
-    const output = {
-      id,
+    if (this.messages.length > 0 && !confirm("Replace the current message items with the inputs of this output?")) {
+      return;
+    }
+
+    this.recordHistory("Restore inputs");
+
+    this.elements.systemMessage.value = provenance.systemMessage;
+    this.saveSystemMessage(provenance.systemMessage);
+
+    const schemaText = provenance.responseSchema ? JSON.stringify(provenance.responseSchema, null, 2) : "";
+    this.setResponseSchemaText(schemaText);
+    this.saveResponseSchema(schemaText);
+
+    this.messages = await Promise.all(
+      provenance.messages.map(async (msg, index) => ({
+        id: String(index + 1),
+        role: msg.role,
+        text: msg.text,
+        images: await GeminiImageManipulator.withDataUrls(await this.loadImages(msg.images)),
+        sourceOutputId: msg.sourceOutputId,
+      }))
+    );
+    this.nextId = this.messages.length + 1;
+
+    this.variableValues = { ...this.variableValues, ...provenance.variableValues };
+
+    this.renderMessages();
+    this.renderVariables(true);
+    this.saveMessages();
+    this.saveVariables();
+  }
+
+  toggleOutputDetails(id: string, open: boolean) {
+    if (open) {
+      this.openDetailsIds.add(id);
+    } else {
+      this.openDetailsIds.delete(id);
+    }
+  }
+
+  // --- Output Management ---
+
+  /**
+   * Adds several loading outputs at the top of the gallery. More than one output is rendered as a grouped set.
+   * @param {number} count
+   * @param {boolean} showImage
+   * @param {InputSnapshot} inputs Recorded as each output's provenance
+   * @returns {string[]} The new output ids, in variant order.
+   */
+  addOutputGroup(count: number, showImage: boolean, inputs: InputSnapshot) {
+    const groupId = count > 1 ? `group-${Date.now()}` : undefined;
+    // The most recent message item taken from an output links the new outputs into its edit chain
+    const derivedFrom = [...inputs.messages].reverse().find((msg) => msg.sourceOutputId)?.sourceOutputId;
+    const timestamp = Date.now();
+    const outputs: OutputItem[] = [];
+    for (let i = 0; i < count; i++) {
+      outputs.push({ ...this.createQueuedOutput(showImage, inputs, timestamp), groupId, derivedFrom });
+    }
+    this.outputs.unshift(...outputs); // Add to top
+    this.renderOutputs();
+    this.saveOutputs();
+    return outputs.map((output) => output.id);
+  }
+
+  /**
+   * Creates an output waiting for its generation to start.
+   * @param {boolean} showImage
+   * @param {InputSnapshot} inputs
+   * @param {number} timestamp
+   * @returns {OutputItem}
+   */
+  createQueuedOutput(showImage: boolean, inputs: InputSnapshot, timestamp: number): OutputItem {
+    return {
+      id: crypto.randomUUID(),
+      imageId: null,
       imageUrl: showImage ? GeminiImageManipulator.PLACEHOLDER_IMAGE : null,
-      text: "Generating...",
+      text: GeminiImageManipulator.QUEUED_TEXT,
       loading: true,
+      provenance: { ...inputs, messages: inputs.messages.map((message) => this.recordMessage(message)), timestamp },
+    };
+  }
+
+  /**
+   * Records the provider, model, config and request payload on an output's provenance. Inline image data is elided to keep storage small.
+   * @param {string} id
+   * @param {GenerationProvider} provider
+   * @param {GenerationRequest} request
+   */
+  recordRequest(id: string, provider: GenerationProvider, request: GenerationRequest) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (output?.provenance) {
+      output.provenance.provider = provider.id;
+      output.provenance.modality = request.modality;
+      output.provenance.model = request.model;
+      output.provenance.config = request.config ?? {};
+      output.provenance.request = GeminiImageManipulator.elideInlineData(provider.buildPayload(request));
+    }
+  }
+
+  startOutput(id: string) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (output) {
+      output.text = GeminiImageManipulator.GENERATING_TEXT;
+      this.renderOutputs();
+    }
+  }
+
+  /**
+   * Aborts an output's generation, keeping any text streamed so far.
+   * @param {string} id
+   */
+  cancelOutput(id: string) {
+    this.abortControllers.get(id)?.abort();
+
+    const output = this.outputs.find((o) => o.id === id);
+    if (output?.loading) {
+      output.loading = false;
+      output.status = "cancelled";
+      if (GeminiImageManipulator.isPendingText(output.text)) output.text = "";
+      this.renderOutputs();
+      this.saveOutputs();
+    }
+  }
+
+  /**
+   * Runs a cancelled, interrupted or failed output again, in place, with the inputs and settings recorded in its provenance.
+   * @param {string} id
+   */
+  async retryOutput(id: string) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (!output?.provenance || output.loading) return;
+
+    const { provenance } = output;
+    const modality = provenance.modality ?? (output.imageUrl || output.imageId ? "image" : "text");
+    const provider = this.getProvider(provenance.provider);
+    if (!provider) return;
+    if (!this.confirmWithinBudget(1)) return;
+
+    // Fall back to the current settings for outputs that stopped before their request was recorded
+    const currentSettings = this.getGenerationSettings();
+    const settings: GenerationSettings = {
+      imageModel: modality === "image" ? (provenance.model ?? currentSettings.imageModel) : currentSettings.imageModel,
+      textModel: modality === "text" ? (provenance.model ?? currentSettings.textModel) : currentSettings.textModel,
+      config: provenance.config ?? currentSettings.config,
+      maxRetries: currentSettings.maxRetries,
     };
-    this.outputs.unshift(output); // Add to top
+    const messages = await Promise.all(provenance.messages.map(async (msg) => ({ ...msg, images: await this.loadImages(msg.images) })));
+    // Retried again while the images loaded
+    if (output.loading) return;
+
+    this.releaseOutputImage(output);
+    output.imageId = null;
+    output.imageUrl = modality === "image" ? GeminiImageManipulator.PLACEHOLDER_IMAGE : null;
+    output.text = GeminiImageManipulator.QUEUED_TEXT;
+    output.loading = true;
+    output.error = undefined;
+    output.status = undefined;
+    output.structured = undefined;
+    provenance.timestamp = Date.now();
     this.renderOutputs();
-    return id;
+    this.saveOutputs();
+
+    await this.runOutput(id, modality, provider, settings, { ...provenance, messages });
+  }
+
+  /**
+   * Shows streamed text on a loading output without saving, so streaming does not rewrite storage on every chunk.
+   * @param {string} id
+   * @param {string} text
+   */
+  streamOutput(id: string, text: string) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (!output?.loading) return;
+    output.text = text;
+
+    // Chunks can arrive faster than the screen refreshes, so render at most once per frame
+    if (this.pendingStreamRenders.has(id)) return;
+    this.pendingStreamRenders.add(id);
+    requestAnimationFrame(() => {
+      this.pendingStreamRenders.delete(id);
+      if (!output.loading) return; // the final result has been rendered already
+      const textElement = document.querySelector<HTMLElement>(`.output-item[data-id="${id}"] .output-item-text`);
+      if (textElement) this.renderOutputText(textElement, output);
+    });
   }
 
-  updateOutput(id: string, imageUrl: string | null, text: string) {
+  /**
+   * Saves a generated image as a separate Blob record and links it to the output.
+   * @param {string} id
+   * @param {Blob} blob
+   * @returns {Promise<string>} Object URL for display.
+   */
+  async storeOutputImage(id: string, blob: Blob): Promise<string> {
+    const imageId = await putImage(this.store, blob);
+    const imageUrl = URL.createObjectURL(blob);
     const output = this.outputs.find((o) => o.id === id);
     if (output) {
+      output.imageId = imageId;
+      output.imageUrl = imageUrl;
+    }
+    return imageUrl;
+  }
+
+  /**
+   * Removes an output's stored image and releases its object URL.
+   * @param {OutputItem} output
+   */
+  releaseOutputImage(output: OutputItem) {
+    if (output.imageUrl?.startsWith("blob:")) URL.revokeObjectURL(output.imageUrl);
+    if (output.imageId) deleteImage(this.store, output.imageId);
+  }
+
+  handleImageIntersection(entries: IntersectionObserverEntry[]) {
+    for (const entry of entries) {
+      if (!entry.isIntersecting) continue;
+      const image = entry.target as HTMLImageElement;
+      this.imageObserver.unobserve(image);
+
+      const output = this.outputs.find((o) => o.id === image.dataset.outputId);
+      if (!output) continue;
+      this.resolveOutputImageUrl(output).then((url) => (image.src = url));
+    }
+  }
+
+  /**
+   * Turns an output's stored image into an object URL on first use.
+   * @param {OutputItem} output
+   * @returns {Promise<string>}
+   */
+  async resolveOutputImageUrl(output: OutputItem): Promise<string> {
+    if (output.imageUrl) return output.imageUrl;
+
+    const blob = output.imageId ? await getImage(this.store, output.imageId) : undefined;
+    if (!blob) return GeminiImageManipulator.PLACEHOLDER_IMAGE;
+
+    output.imageUrl = URL.createObjectURL(blob);
+    return output.imageUrl;
+  }
+
+  updateOutput(id: string, imageUrl: string | null, text: string, structured?: StructuredResult) {
+    const output = this.outputs.find((o) => o.id === id);
+    // Ignore results that arrive after the output was cancelled
+    if (output && output.status !== "cancelled") {
       output.imageUrl = imageUrl;
       output.text = text;
+      output.structured = structured;
       output.loading = false;
       this.renderOutputs();
       this.saveOutputs();
     }
   }
 
-  deleteOutput(id: string) {
-    this.outputs = this.outputs.filter((o) => o.id !== id);
+  /**
+   * Marks an output as failed. Text streamed before the failure is kept.
+   * @param {string} id
+   * @param {string | null} imageUrl
+   * @param {GenerationError} error
+   * @param {number} attempts
+   */
+  failOutput(id: string, imageUrl: string | null, error: GenerationError, attempts: number) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (output) {
+      output.imageUrl = imageUrl;
+      if (GeminiImageManipulator.isPendingText(output.text) || output.text.startsWith(GeminiImageManipulator.RETRYING_TEXT)) {
+        output.text = "";
+      }
+      output.error = {
+        kind: error.kind,
+        message: error.message,
+        status: error.status,
+        finishReason: error.finishReason,
+        safetyRatings: error.safetyRatings,
+        attempts,
+      };
+      output.loading = false;
+      this.renderOutputs();
+      this.saveOutputs();
+    }
+  }
+
+  /**
+   * Removes outputs, keeping their stored images while the deletion can still be undone.
+   * @param {string[]} ids
+   * @param {string} label
+   */
+  deleteOutputs(ids: string[], label: string) {
+    const deletedOutputs = this.outputs
+      .map((output, index) => ({ index, output }))
+      .filter(({ output }) => ids.includes(output.id))
+      .map(({ index, output }) => ({ index, output: GeminiImageManipulator.toDeletedOutput(output) }));
+    if (deletedOutputs.length === 0) return;
+
+    this.recordHistory(label, { deletedOutputs });
+    for (const id of ids) this.abortControllers.get(id)?.abort();
+    for (const output of this.outputs) {
+      if (ids.includes(output.id) && output.imageUrl?.startsWith("blob:")) URL.revokeObjectURL(output.imageUrl);
+    }
+    this.outputs = this.outputs.filter((o) => !ids.includes(o.id));
     this.renderOutputs();
     this.saveOutputs();
   }
 
+  deleteOutput(id: string) {
+    this.deleteOutputs([id], "Delete output");
+  }
+
   deleteAllOutputs() {
-    this.outputs = [];
+    // Comparisons are deleted from their own grids
+    const ids = this.outputs.filter((output) => !output.comparisonId).map((output) => output.id);
+    this.deleteOutputs(ids, "Delete all outputs");
+  }
+
+  // --- Rendering ---
+
+  renderMessages() {
+    const container = this.elements.messagesContainer;
+    container.innerHTML = "";
+
+    this.messages.forEach((message) => {
+      const itemElement = this.createMessageElement(message);
+      container.appendChild(itemElement);
+    });
+  }
+
+  createMessageElement(message: MessageItem) {
+    const item = document.createElement("div");
+    item.className = "message-item";
+    item.classList.add(`role-${message.role}`);
+    if (message.images.length > 0) {
+      item.classList.add("has-image");
+    }
+    item.dataset.id = message.id;
+    item.draggable = true;
+
+    // Drag Handle
+    const dragHandle = document.createElement("div");
+    dragHandle.className = "drag-handle";
+    dragHandle.innerHTML = "⋮";
+    item.appendChild(dragHandle);
+
+    // Thumbnails (only visible when has-image class is present)
+    const thumbnails = document.createElement("div");
+    thumbnails.className = "message-thumbnails";
+    message.images.forEach((image, index) => thumbnails.appendChild(this.createThumbnailElement(message.id, image, index)));
+    item.appendChild(thumbnails);
+
+    // Textarea
+    const textarea = document.createElement("textarea");
+    textarea.className = "message-textarea";
+    textarea.value = message.text;
+    textarea.placeholder = "Enter text or paste images...";
+    textarea.addEventListener("input", (e) => {
+      this.updateMessageText(message.id, (e.target as HTMLTextAreaElement).value);
+    });
+
+    // Handle paste event for images, adding every image on the clipboard
+    textarea.addEventListener("paste", async (e) => {
+      const files = Array.from(e.clipboardData?.items ?? [])
+        .filter((item) => item.type.startsWith("image/"))
+        .map((item) => item.getAsFile())
+        .filter((file) => file !== null);
+      if (files.length > 0) {
+        e.preventDefault();
+        await this.addMessageImages(message.id, files);
+      }
+    });
+
+    item.appendChild(textarea);
+
+    // Buttons Container
+    const buttonsContainer = document.createElement("div");
+    buttonsContainer.className = "message-buttons";
+
+    // Role Toggle Button
+    const roleButton = document.createElement("button");
+    roleButton.className = "message-button";
+    roleButton.innerHTML = message.role === "model" ? "🤖" : "👤";
+    roleButton.title = `Role: ${message.role} (click to switch)`;
+    roleButton.addEventListener("click", () => this.toggleMessageRole(message.id));
+    buttonsContainer.appendChild(roleButton);
+
+    // Delete Button
+    const deleteButton = document.createElement("button");
+    deleteButton.className = "message-button";
+    deleteButton.innerHTML = "🗑️";
+    deleteButton.title = "Delete";
+    deleteButton.addEventListener("click", () => this.deleteMessage(message.id));
+    buttonsContainer.appendChild(deleteButton);
+
+    // Upload Image Button
+    const uploadButton = document.createElement("button");
+    uploadButton.className = "message-button";
+    uploadButton.innerHTML = "📷";
+    uploadButton.title = "Add Images";
+    uploadButton.addEventListener("click", () => {
+      const fileInput = document.createElement("input");
+      fileInput.type = "file";
+      fileInput.accept = "image/*";
+      fileInput.multiple = true;
+      fileInput.style.display = "none";
+      fileInput.addEventListener("change", async (e) => {
+        const files = Array.from((e.target as HTMLInputElement).files ?? []);
+        await this.addMessageImages(message.id, files);
+      });
+      document.body.appendChild(fileInput);
+      fileInput.click();
+      document.body.removeChild(fileInput);
+    });
+    buttonsContainer.appendChild(uploadButton);
+
+    item.appendChild(buttonsContainer);
+
+    // Drag Events
+    item.addEventListener("dragstart", (e) => this.handleDragStart(e, message.id));
+    item.addEventListener("dragend", (e) => this.handleDragEnd(e));
+    item.addEventListener("dragover", (e) => this.handleDragOver(e));
+    item.addEventListener("dragleave", (e) => this.handleDragLeave(e));
+    item.addEventListener("drop", (e) => this.handleDrop(e, message.id));
+
+    return item;
+  }
+
+  /**
+   * A message image with controls to annotate and remove it. Clicking the image opens the crop/rotate editor.
+   * @param {string} messageId
+   * @param {MessageImage} image
+   * @param {number} index
+   * @returns {HTMLElement}
+   */
+  createThumbnailElement(messageId: string, image: MessageImage, index: number): HTMLElement {
+    const container = document.createElement("div");
+    container.className = "message-thumbnail";
+    container.classList.toggle("annotated", !!image.annotation);
+
+    const img = document.createElement("img");
+    img.src = image.dataUrl;
+    img.alt = `Image ${index + 1}`;
+    img.title = "Click to crop or rotate";
+    img.draggable = false;
+    img.addEventListener("click", () => this.openImageEditor(messageId, index));
+    container.appendChild(img);
+
+    const annotateButton = document.createElement("button");
+    annotateButton.className = "thumbnail-button annotate";
+    annotateButton.innerHTML = "🖍️";
+    annotateButton.title = image.annotation ? `Annotate (${image.annotation.shapes.length} marks)` : "Annotate";
+    annotateButton.addEventListener("click", () => this.openAnnotationEditor(messageId, index));
+    container.appendChild(annotateButton);
+
+    const removeButton = document.createElement("button");
+    removeButton.className = "thumbnail-button remove";
+    removeButton.innerHTML = "✕";
+    removeButton.title = "Remove image";
+    removeButton.addEventListener("click", () => this.removeMessageImage(messageId, index));
+    container.appendChild(removeButton);
+
+    return container;
+  }
+
+  renderVariables(force: boolean = false) {
+    const variables = this.getResolvedVariables();
+
+    // Skip re-rendering while typing unless the set of variables changed, so inputs keep focus
+    const names = variables.map((variable) => variable.name).join("\n");
+    if (!force && names === this.renderedVariableNames) return;
+    this.renderedVariableNames = names;
+
+    const container = this.elements.variablesContainer;
+    container.innerHTML = "";
+
+    if (variables.length === 0) return;
+
+    const heading = document.createElement("label");
+    heading.textContent = "Template variables";
+    container.appendChild(heading);
+
+    for (const variable of variables) {
+      const field = document.createElement("div");
+      field.className = "variable-field";
+
+      const inputId = `variable-${variable.name}`;
+      const label = document.createElement("label");
+      label.htmlFor = inputId;
+      label.textContent = `{{${variable.name}}}`;
+      field.appendChild(label);
+
+      if (variable.description) {
+        const description = document.createElement("div");
+        description.className = "variable-description";
+        description.textContent = variable.description;
+        field.appendChild(description);
+      }
+
+      const input = document.createElement("textarea");
+      input.id = inputId;
+      input.rows = 1;
+      input.value = this.variableValues[variable.name] ?? variable.default ?? "";
+      input.placeholder = `Value for ${variable.name}`;
+      input.addEventListener("input", (e) => this.updateVariableValue(variable.name, (e.target as HTMLTextAreaElement).value));
+      field.appendChild(input);
+
+      container.appendChild(field);
+    }
+  }
+
+  renderOutputs() {
+    const container = this.elements.outputContainer;
+    container.innerHTML = "";
+    container.classList.toggle("grid", this.galleryLayout === "grid");
+    this.elements.galleryLayoutButton.textContent = this.galleryLayout === "grid" ? "List" : "Grid";
+    this.elements.galleryLayoutButton.title = `Show outputs as a ${this.galleryLayout === "grid" ? "list" : "grid"}`;
+    this.renderComparisons();
+
+    const allOutputs = this.outputs.filter((output) => !output.comparisonId);
+    this.populateGalleryTags(allOutputs);
+    const filter = this.getGalleryFilter();
+    const now = Date.now();
+    const outputs = allOutputs.filter((output) => GeminiImageManipulator.matchesGalleryFilter(output, filter, now));
+    this.elements.galleryCount.textContent = outputs.length < allOutputs.length ? `Showing ${outputs.length} of ${allOutputs.length}` : "";
+    this.updateExportButton();
+
+    if (allOutputs.length === 0) {
+      container.innerHTML = "<p>No outputs yet</p>";
+      return;
+    }
+    if (outputs.length === 0) {
+      container.innerHTML = "<p>No outputs match the filters</p>";
+      return;
+    }
+
+    // Variants of one batch share a group container, placed where the group's first output is
+    const groups = new Map<string, HTMLElement>();
+    // So do the outputs of a pipeline run, which are filled in as a tree once all containers are placed
+    const pipelineRuns = new Map<string, HTMLElement>();
+
+    outputs.forEach((output) => {
+      if (output.pipeline) {
+        if (!pipelineRuns.has(output.pipeline.runId)) {
+          const run = this.createPipelineRunElement(output.pipeline.runId);
+          pipelineRuns.set(output.pipeline.runId, run);
+          container.appendChild(run);
+        }
+        return;
+      }
+
+      const itemElement = this.createOutputElement(output);
+      if (!output.groupId) {
+        container.appendChild(itemElement);
+        return;
+      }
+
+      let group = groups.get(output.groupId);
+      if (!group) {
+        group = this.createOutputGroupElement(output.groupId);
+        groups.set(output.groupId, group);
+        container.appendChild(group);
+      }
+      group.appendChild(itemElement);
+    });
+
+    const shown = new Set(outputs);
+    for (const [runId, run] of pipelineRuns) {
+      const tree = GeminiImageManipulator.orderPipelineTree(this.outputs.filter((o) => o.pipeline?.runId === runId));
+      for (const { output, depth } of tree) {
+        if (!shown.has(output)) continue;
+        const itemElement = this.createOutputElement(output);
+        itemElement.style.setProperty("--depth", String(depth));
+        run.appendChild(itemElement);
+      }
+    }
+  }
+
+  // --- Gallery ---
+
+  /**
+   * Reads the gallery toolbar.
+   * @returns {GalleryFilter}
+   */
+  getGalleryFilter(): GalleryFilter {
+    return {
+      search: this.elements.gallerySearchInput.value.trim(),
+      tag: this.elements.galleryTagSelect.value,
+      minRating: Number(this.elements.galleryRatingSelect.value),
+      modality: this.elements.galleryModalitySelect.value as GalleryFilter["modality"],
+      days: Number(this.elements.galleryDateSelect.value),
+      favoritesOnly: this.elements.galleryFavoritesInput.checked,
+    };
+  }
+
+  /**
+   * Lists every tag in use in the tag filter, keeping the current choice.
+   * @param {OutputItem[]} outputs
+   */
+  populateGalleryTags(outputs: OutputItem[]) {
+    const select = this.elements.galleryTagSelect;
+    const selected = select.value;
+    const tags = [...new Set(outputs.flatMap((output) => output.tags ?? []))].sort((a, b) => a.localeCompare(b));
+    if (selected && !tags.includes(selected)) tags.push(selected);
+
+    select.innerHTML = '<option value="">All tags</option>';
+    for (const tag of tags) {
+      const option = document.createElement("option");
+      option.value = tag;
+      option.textContent = tag;
+      select.appendChild(option);
+    }
+    select.value = selected;
+  }
+
+  toggleGalleryLayout() {
+    this.galleryLayout = this.galleryLayout === "grid" ? "list" : "grid";
+    this.renderOutputs();
+    this.saveGalleryLayout();
+  }
+
+  /**
+   * Sets the rating, tags, favorite flag or notes of an output.
+   * @param {string} id
+   * @param {Pick<OutputItem, "rating" | "tags" | "favorite" | "notes">} annotations
+   */
+  annotateOutput(id: string, annotations: Pick<OutputItem, "rating" | "tags" | "favorite" | "notes">) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (!output) return;
+    Object.assign(output, annotations);
     this.renderOutputs();
     this.saveOutputs();
   }
 
-  // --- Rendering ---
+  addOutputTags(id: string) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (!output) return;
+
+    const input = prompt("Add tags (comma-separated):");
+    if (!input) return;
+
+    const tags = GeminiImageManipulator.parseTags(input);
+    this.annotateOutput(id, { tags: [...new Set([...(output.tags ?? []), ...tags])] });
+  }
+
+  createAnnotationsElement(output: OutputItem) {
+    const element = document.createElement("div");
+    element.className = "output-annotations";
+
+    // Star rating; clicking the current rating clears it
+    const rating = document.createElement("span");
+    rating.className = "star-rating";
+    for (let stars = 1; stars <= 5; stars++) {
+      const star = document.createElement("button");
+      star.className = "star-button";
+      star.textContent = stars <= (output.rating ?? 0) ? "★" : "☆";
+      star.title = `${stars} star${stars > 1 ? "s" : ""}`;
+      star.addEventListener("click", () => this.annotateOutput(output.id, { rating: output.rating === stars ? undefined : stars }));
+      rating.appendChild(star);
+    }
+    element.appendChild(rating);
+
+    // Tags
+    for (const tag of output.tags ?? []) {
+      const chip = document.createElement("span");
+      chip.className = "output-tag";
+      chip.textContent = tag;
+      const remove = document.createElement("button");
+      remove.className = "output-tag-remove";
+      remove.textContent = "×";
+      remove.title = `Remove tag "${tag}"`;
+      remove.addEventListener("click", () => this.annotateOutput(output.id, { tags: output.tags!.filter((t) => t !== tag) }));
+      chip.appendChild(remove);
+      element.appendChild(chip);
+    }
+    const addTag = document.createElement("button");
+    addTag.className = "link-button";
+    addTag.textContent = "+ tag";
+    addTag.addEventListener("click", () => this.addOutputTags(output.id));
+    element.appendChild(addTag);
+
+    // Notes
+    const notes = document.createElement("details");
+    notes.className = "output-notes";
+    notes.open = !!output.notes;
+    const summary = document.createElement("summary");
+    summary.textContent = "Notes";
+    const textarea = document.createElement("textarea");
+    textarea.rows = 2;
+    textarea.value = output.notes ?? "";
+    textarea.placeholder = "Notes about this output...";
+    textarea.addEventListener("change", () => this.annotateOutput(output.id, { notes: textarea.value.trim() || undefined }));
+    notes.append(summary, textarea);
+    element.appendChild(notes);
+
+    return element;
+  }
 
-  renderMessages() {
-    const container = this.elements.messagesContainer;
-    container.innerHTML = "";
+  // --- Export and Import ---
 
-    this.messages.forEach((message) => {
-      const itemElement = this.createMessageElement(message);
-      container.appendChild(itemElement);
-    });
+  toggleOutputSelection(id: string, selected: boolean) {
+    if (selected) {
+      this.selectedOutputIds.add(id);
+    } else {
+      this.selectedOutputIds.delete(id);
+    }
+    this.updateExportButton();
   }
 
-  createMessageElement(message: { id: string; text: string; image: { blob: Blob; mimeType: string; dataUrl: string } | null }) {
-    const item = document.createElement("div");
-    item.className = "message-item";
-    if (message.image) {
-      item.classList.add("has-image");
+  updateExportButton() {
+    // Forget outputs deleted since they were selected
+    for (const id of this.selectedOutputIds) {
+      if (!this.outputs.some((o) => o.id === id)) this.selectedOutputIds.delete(id);
     }
-    item.dataset.id = message.id;
-    item.draggable = true;
-
-    // Drag Handle
-    const dragHandle = document.createElement("div");
-    dragHandle.className = "drag-handle";
-    dragHandle.innerHTML = "⋮";
-    item.appendChild(dragHandle);
+    const count = this.selectedOutputIds.size;
+    this.elements.exportZipButton.textContent = count > 0 ? `Export ${count} selected (ZIP)` : "Export all (ZIP)";
+  }
 
-    // Thumbnail (only visible when has-image class is present)
-    const thumbnail = document.createElement("img");
-    thumbnail.className = "message-thumbnail";
-    if (message.image) {
-      thumbnail.src = message.image.dataUrl;
-      thumbnail.alt = "Image";
+  /**
+   * Downloads the selected outputs, or all outputs in the list, as a ZIP of image and Markdown files with a manifest.
+   * Images that are neither PNG nor JPEG are converted to PNG.
+   */
+  async exportOutputs() {
+    const outputs = this.outputs.filter(
+      (output) => !output.loading && (this.selectedOutputIds.size > 0 ? this.selectedOutputIds.has(output.id) : !output.comparisonId)
+    );
+    if (outputs.length === 0) {
+      alert("There are no outputs to export.");
+      return;
     }
-    item.appendChild(thumbnail);
 
-    // Textarea
-    const textarea = document.createElement("textarea");
-    textarea.className = "message-textarea";
-    textarea.value = message.text;
-    textarea.placeholder = "Enter text or paste an image...";
-    textarea.addEventListener("input", (e) => {
-      this.updateMessageText(message.id, (e.target as HTMLTextAreaElement).value);
-    });
+    try {
+      const entries: ArchiveEntry[] = [];
+      const files: Record<string, Uint8Array> = {};
+
+      for (const output of outputs) {
+        const blob = output.imageId ? await getImage(this.store, output.imageId) : undefined;
+        let file: string;
+        if (blob) {
+          const image = await GeminiImageManipulator.toPngOrJpeg(blob);
+          file = `images/output-${output.id}.${image.type === "image/jpeg" ? "jpg" : "png"}`;
+          files[file] = new Uint8Array(await image.arrayBuffer());
+        } else {
+          file = `texts/output-${output.id}.md`;
+          files[file] = new TextEncoder().encode(output.text);
+        }
+        entries.push(GeminiImageManipulator.toArchiveEntry(output, file, !!blob));
+      }
 
-    // Handle paste event for images
-    textarea.addEventListener("paste", async (e) => {
-      const items = e.clipboardData?.items ?? [];
-      for (let i = 0; i < items.length; i++) {
-        if (items[i].type.indexOf("image") !== -1) {
-          e.preventDefault();
-          const file = items[i].getAsFile();
-          if (file) {
-            await this.updateMessageImage(message.id, file);
-          }
-          break; // Only handle first image for now
+      const manifest: ArchiveManifest = { version: 1, exportedAt: Date.now(), outputs: entries };
+      const archive = createArchive(manifest, files);
+      const workspaceName = this.workspaces.find((w) => w.id === this.workspaceId)?.name ?? "outputs";
+      GeminiImageManipulator.downloadBlob(
+        new Blob([archive as Uint8Array<ArrayBuffer>], { type: "application/zip" }),
+        `${GeminiImageManipulator.toFileName(workspaceName)}-outputs.zip`
+      );
+    } catch (error) {
+      console.error("Error exporting outputs:", error);
+      alert(`Failed to export outputs: ${(error as Error).message}`);
+    }
+  }
+
+  importOutputs() {
+    const fileInput = document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = ".zip,application/zip";
+    fileInput.style.display = "none";
+    fileInput.addEventListener("change", async (e) => {
+      const file = (e.target as HTMLInputElement).files![0];
+      if (!file) return;
+
+      const imported: OutputItem[] = [];
+      try {
+        const { manifest, files } = readArchive(new Uint8Array(await file.arrayBuffer()));
+
+        // Check the whole manifest before storing any image
+        const missing = manifest.outputs.find((entry) => !files[entry.file]);
+        if (missing) throw new Error(`${missing.file} is listed in the manifest but missing from the archive.`);
+
+        for (const entry of manifest.outputs) {
+          imported.push(await this.createOutputFromArchive(entry, files[entry.file]));
         }
+      } catch (error) {
+        // Images stored before the failure belong to no output
+        imported.forEach((output) => this.releaseOutputImage(output));
+        console.error("Error importing outputs:", error);
+        alert(`Failed to import outputs: ${(error as Error).message}`);
+        return;
       }
+
+      this.outputs.unshift(...imported);
+      this.renderOutputs();
+      this.saveOutputs();
+      alert(`Imported ${imported.length} output${imported.length === 1 ? "" : "s"}.`);
     });
+    document.body.appendChild(fileInput);
+    fileInput.click();
+    document.body.removeChild(fileInput);
+  }
 
-    item.appendChild(textarea);
+  /**
+   * Rebuilds an output from an archive entry, storing its image. The provenance has the message texts but no input images.
+   * @param {ArchiveEntry} entry
+   * @param {Uint8Array} data The entry's file
+   * @returns {Promise<OutputItem>}
+   */
+  async createOutputFromArchive(entry: ArchiveEntry, data: Uint8Array): Promise<OutputItem> {
+    const isImage = /\.(png|jpe?g)$/i.test(entry.file);
+    const imageId = isImage
+      ? await putImage(this.store, new Blob([data as Uint8Array<ArrayBuffer>], { type: /\.png$/i.test(entry.file) ? "image/png" : "image/jpeg" }))
+      : null;
+
+    return {
+      id: crypto.randomUUID(),
+      imageId,
+      imageUrl: null,
+      text: isImage ? (entry.text ?? "") : new TextDecoder().decode(data),
+      loading: false,
+      rating: entry.rating,
+      tags: entry.tags,
+      favorite: entry.favorite,
+      notes: entry.notes,
+      provenance: {
+        systemMessage: entry.systemMessage ?? "",
+        messages: (entry.messages ?? []).map((message, index) => ({ id: String(index + 1), role: message.role, text: message.text, images: [] })),
+        variableValues: {},
+        timestamp: entry.timestamp ?? Date.now(),
+        provider: entry.provider,
+        modality: entry.modality ?? (isImage ? "image" : "text"),
+        model: entry.model,
+        config: entry.config,
+      },
+    };
+  }
 
-    // Buttons Container
-    const buttonsContainer = document.createElement("div");
-    buttonsContainer.className = "message-buttons";
+  renderComparisons() {
+    const container = this.elements.comparisonContainer;
+    container.innerHTML = "";
+
+    for (const comparison of this.comparisons) {
+      // Comparisons whose outputs were all deleted stay stored, so undo can bring them back
+      if (!this.outputs.some((output) => output.comparisonId === comparison.id)) continue;
+      container.appendChild(this.createComparisonElement(comparison));
+    }
+  }
+
+  createComparisonElement(comparison: Comparison) {
+    const element = document.createElement("div");
+    element.className = "comparison";
+
+    // Header
+    const header = document.createElement("div");
+    header.className = "comparison-header";
+    const title = document.createElement("span");
+    const modality = comparison.modality === "image" ? "Image" : "Text";
+    title.textContent = `${modality} comparison · ${new Date(comparison.timestamp).toLocaleString()}`;
+    header.appendChild(title);
 
-    // Delete Button
     const deleteButton = document.createElement("button");
     deleteButton.className = "message-button";
     deleteButton.innerHTML = "🗑️";
-    deleteButton.title = "Delete";
-    deleteButton.addEventListener("click", () => this.deleteMessage(message.id));
-    buttonsContainer.appendChild(deleteButton);
+    deleteButton.title = "Delete comparison";
+    deleteButton.addEventListener("click", () => this.deleteOutputs(comparison.rows.flat(), "Delete comparison"));
+    header.appendChild(deleteButton);
+    element.appendChild(header);
+
+    // Grid: a header cell per variant, then one row per run
+    const grid = document.createElement("div");
+    grid.className = "comparison-grid";
+    grid.style.gridTemplateColumns = `repeat(${comparison.variants.length}, minmax(16rem, 1fr))`;
+
+    const tallies = Object.values(comparison.votes);
+    for (const variant of comparison.variants) {
+      const variantHeader = document.createElement("div");
+      variantHeader.className = "comparison-variant";
+      const label = document.createElement("strong");
+      label.textContent = variant.label;
+      const description = document.createElement("div");
+      description.className = "comparison-variant-description";
+      description.textContent = GeminiImageManipulator.describeCompareVariant(variant);
+      const tally = document.createElement("div");
+      tally.className = "comparison-tally";
+      tally.textContent = `👍 ${tallies.filter((variantId) => variantId === variant.id).length}`;
+      variantHeader.append(label, description, tally);
+      grid.appendChild(variantHeader);
+    }
 
-    // Upload Image Button
-    const uploadButton = document.createElement("button");
-    uploadButton.className = "message-button";
-    uploadButton.innerHTML = "📷";
-    uploadButton.title = "Upload Image";
-    uploadButton.addEventListener("click", () => {
-      const fileInput = document.createElement("input");
-      fileInput.type = "file";
-      fileInput.accept = "image/*";
-      fileInput.style.display = "none";
-      fileInput.addEventListener("change", async (e) => {
-        const file = (e.target as HTMLInputElement).files![0];
-        if (file) {
-          await this.updateMessageImage(message.id, file);
+    comparison.rows.forEach((outputIds, row) => {
+      outputIds.forEach((outputId, column) => {
+        const cell = document.createElement("div");
+        cell.className = "comparison-cell";
+
+        const output = this.outputs.find((o) => o.id === outputId);
+        if (!output) {
+          cell.classList.add("deleted");
+          cell.textContent = "Deleted";
+          grid.appendChild(cell);
+          return;
         }
+        cell.appendChild(this.createOutputElement(output));
+
+        const variantId = comparison.variants[column].id;
+        const voteButton = document.createElement("button");
+        voteButton.className = "vote-button";
+        voteButton.classList.toggle("voted", comparison.votes[row] === variantId);
+        voteButton.textContent = comparison.votes[row] === variantId ? "👍 Preferred" : "👍 Prefer";
+        voteButton.title = "Prefer this result over the others in its row";
+        voteButton.disabled = output.loading;
+        voteButton.addEventListener("click", () => this.voteComparison(comparison.id, row, variantId));
+        cell.appendChild(voteButton);
+
+        grid.appendChild(cell);
       });
-      document.body.appendChild(fileInput);
-      fileInput.click();
-      document.body.removeChild(fileInput);
     });
-    buttonsContainer.appendChild(uploadButton);
 
-    item.appendChild(buttonsContainer);
+    element.appendChild(grid);
+    return element;
+  }
 
-    // Drag Events
-    item.addEventListener("dragstart", (e) => this.handleDragStart(e, message.id));
-    item.addEventListener("dragend", (e) => this.handleDragEnd(e));
-    item.addEventListener("dragover", (e) => this.handleDragOver(e));
-    item.addEventListener("dragleave", (e) => this.handleDragLeave(e));
-    item.addEventListener("drop", (e) => this.handleDrop(e, message.id));
+  createOutputGroupElement(groupId: string) {
+    const group = document.createElement("div");
+    group.className = "output-group";
+    group.dataset.groupId = groupId;
 
-    return item;
-  }
+    const variants = this.outputs.filter((o) => o.groupId === groupId);
+    const pending = variants.filter((o) => o.loading).length;
+    const failed = variants.filter((o) => o.error).length;
 
-  renderOutputs() {
-    const container = this.elements.outputContainer;
-    container.innerHTML = "";
+    const header = document.createElement("div");
+    header.className = "output-group-header";
+    const summary = [`${variants.length} variants`];
+    if (pending > 0) summary.push(`${pending} pending`);
+    if (failed > 0) summary.push(`${failed} failed`);
+    header.textContent = summary.join(" · ");
+    group.appendChild(header);
 
-    if (this.outputs.length === 0) {
-      container.innerHTML = "<p>No outputs yet</p>";
-      return;
-    }
+    return group;
+  }
 
-    this.outputs.forEach((output) => {
-      const itemElement = this.createOutputElement(output);
-      container.appendChild(itemElement);
-    });
+  /**
+   * Creates the container of a pipeline run, with a header listing its steps and how many outputs are pending or failed.
+   * @param {string} runId
+   * @returns {HTMLElement}
+   */
+  createPipelineRunElement(runId: string) {
+    const run = document.createElement("div");
+    run.className = "output-group pipeline-run";
+    run.dataset.runId = runId;
+
+    const runOutputs = GeminiImageManipulator.sortByCreation(this.outputs.filter((o) => o.pipeline?.runId === runId));
+    const stepIds = [...new Set(runOutputs.map((o) => o.pipeline!.stepId))];
+    const pending = runOutputs.filter((o) => o.loading).length;
+    const failed = runOutputs.filter((o) => o.error).length;
+
+    const header = document.createElement("div");
+    header.className = "output-group-header";
+    const summary = [`Pipeline ${stepIds.join(" → ")}`, `${runOutputs.length} outputs`];
+    if (pending > 0) summary.push(`${pending} pending`);
+    if (failed > 0) summary.push(`${failed} failed`);
+    header.textContent = summary.join(" · ");
+    run.appendChild(header);
+
+    return run;
   }
 
-  createOutputElement(output: { id: string; imageUrl: string | null; text: string; loading: boolean }) {
+  createOutputElement(output: OutputItem) {
     const item = document.createElement("div");
     item.className = "output-item";
+    if (output.error) {
+      item.classList.add("error", `error-${output.error.kind}`);
+    }
     item.dataset.id = output.id;
 
     // Content container
     const content = document.createElement("div");
     content.className = "output-item-content";
 
-    // Image (only show if imageUrl is not null)
-    if (output.imageUrl) {
+    // Pipeline step, and the item a forEach step ran for
+    if (output.pipeline) {
+      const step = document.createElement("div");
+      step.className = "output-pipeline-step";
+      step.textContent =
+        output.pipeline.item !== undefined ? `Step ${output.pipeline.stepId} · ${output.pipeline.item}` : `Step ${output.pipeline.stepId}`;
+      content.appendChild(step);
+    }
+
+    // Image (only show for image outputs)
+    if (output.imageUrl || output.imageId) {
       const image = document.createElement("img");
       image.className = "output-item-image";
       if (output.loading) {
         image.classList.add("loading");
       }
-      image.src = output.imageUrl;
+      if (output.imageUrl) {
+        image.src = output.imageUrl;
+      } else {
+        // Stored image: load it once it scrolls into view
+        image.dataset.outputId = output.id;
+        this.imageObserver.observe(image);
+      }
       image.alt = "Generated Image";
       content.appendChild(image);
     }
 
-    // Text
-    const text = document.createElement("div");
-    text.className = "output-item-text";
-    text.textContent = output.text;
-    content.appendChild(text);
+    // Status of generations that stopped early
+    if (output.status) {
+      const status = document.createElement("div");
+      status.className = `output-status ${output.status}`;
+      status.textContent = output.status === "cancelled" ? "Cancelled" : "Interrupted by page reload";
+      content.appendChild(status);
+    }
+
+    // Error details
+    if (output.error) {
+      content.appendChild(this.createErrorElement(output.error));
+    }
+
+    // Text, or the parsed result of a structured (JSON) generation
+    if (output.structured) {
+      content.appendChild(this.createStructuredElement(output));
+    } else {
+      const text = document.createElement("div");
+      text.className = "output-item-text";
+      this.renderOutputText(text, output);
+      content.appendChild(text);
+    }
+
+    // Rating, tags and notes
+    if (!output.loading) {
+      content.appendChild(this.createAnnotationsElement(output));
+    }
+
+    // Edit chain
+    const lineage = this.getOutputLineage(output);
+    if (lineage.length > 0) {
+      const lineageElement = document.createElement("div");
+      lineageElement.className = "output-lineage";
+      lineageElement.append("Derived from ");
+      lineage.forEach((ancestorId, index) => {
+        if (index > 0) lineageElement.append(" ← ");
+        const exists = this.outputs.some((o) => o.id === ancestorId);
+        const link = document.createElement("button");
+        link.className = "link-button";
+        // Ids are UUIDs; their first characters are enough to tell outputs apart
+        const label = `#${ancestorId.slice(0, 8)}`;
+        link.textContent = exists ? label : `${label} (deleted)`;
+        link.title = ancestorId;
+        link.disabled = !exists;
+        link.addEventListener("click", () => this.scrollToOutput(ancestorId));
+        lineageElement.appendChild(link);
+      });
+      content.appendChild(lineageElement);
+    }
+
+    // Provenance details
+    if (output.provenance) {
+      content.appendChild(this.createProvenanceElement(output));
+    }
 
     item.appendChild(content);
 
@@ -477,6 +3293,17 @@ class GeminiImageManipulator {
     const buttonsContainer = document.createElement("div");
     buttonsContainer.className = "output-item-buttons";
 
+    // Export selection checkbox
+    if (!output.loading) {
+      const select = document.createElement("input");
+      select.type = "checkbox";
+      select.className = "output-select";
+      select.title = "Select for export";
+      select.checked = this.selectedOutputIds.has(output.id);
+      select.addEventListener("change", () => this.toggleOutputSelection(output.id, select.checked));
+      buttonsContainer.appendChild(select);
+    }
+
     // Delete button
     const deleteButton = document.createElement("button");
     deleteButton.className = "message-button";
@@ -485,11 +3312,221 @@ class GeminiImageManipulator {
     deleteButton.addEventListener("click", () => this.deleteOutput(output.id));
     buttonsContainer.appendChild(deleteButton);
 
+    // Cancel button
+    if (output.loading) {
+      const cancelButton = document.createElement("button");
+      cancelButton.className = "message-button";
+      cancelButton.innerHTML = "⏹️";
+      cancelButton.title = "Cancel";
+      cancelButton.addEventListener("click", () => this.cancelOutput(output.id));
+      buttonsContainer.appendChild(cancelButton);
+    }
+
+    // Retry button
+    if (!output.loading && output.provenance && (output.status || output.error)) {
+      const retryButton = document.createElement("button");
+      retryButton.className = "message-button";
+      retryButton.innerHTML = "🔁";
+      retryButton.title = "Retry";
+      retryButton.addEventListener("click", () => this.retryOutput(output.id));
+      buttonsContainer.appendChild(retryButton);
+    }
+
+    // Favorite button
+    if (!output.loading) {
+      const favoriteButton = document.createElement("button");
+      favoriteButton.className = "message-button";
+      favoriteButton.innerHTML = output.favorite ? "❤️" : "🤍";
+      favoriteButton.title = output.favorite ? "Remove from favorites" : "Add to favorites";
+      favoriteButton.addEventListener("click", () => this.annotateOutput(output.id, { favorite: !output.favorite || undefined }));
+      buttonsContainer.appendChild(favoriteButton);
+    }
+
+    // Copy and Markdown toggle buttons
+    if (!output.loading && output.text) {
+      const copyButton = document.createElement("button");
+      copyButton.className = "message-button";
+      copyButton.innerHTML = "📋";
+      copyButton.title = "Copy text";
+      copyButton.addEventListener("click", () => GeminiImageManipulator.copyToClipboard(output.text, copyButton));
+      buttonsContainer.appendChild(copyButton);
+
+      if (!output.structured) {
+        const rawButton = document.createElement("button");
+        rawButton.className = "message-button";
+        rawButton.innerHTML = output.rawText ? "📝" : "🔤";
+        rawButton.title = output.rawText ? "Show formatted" : "Show raw text";
+        rawButton.addEventListener("click", () => this.toggleRawText(output.id));
+        buttonsContainer.appendChild(rawButton);
+      }
+    }
+
+    // Continue conversation button
+    if (!output.loading) {
+      const continueButton = document.createElement("button");
+      continueButton.className = "message-button";
+      continueButton.innerHTML = "💬";
+      continueButton.title = "Continue conversation";
+      continueButton.addEventListener("click", () => this.continueConversation(output.id));
+      buttonsContainer.appendChild(continueButton);
+
+      const useAsInputButton = document.createElement("button");
+      useAsInputButton.className = "message-button";
+      useAsInputButton.innerHTML = "↩️";
+      useAsInputButton.title = "Use as input";
+      useAsInputButton.addEventListener("click", () => this.useOutputAsInput(output.id));
+      buttonsContainer.appendChild(useAsInputButton);
+    }
+
+    // Restore inputs button
+    if (output.provenance) {
+      const restoreButton = document.createElement("button");
+      restoreButton.className = "message-button";
+      restoreButton.innerHTML = "⏪";
+      restoreButton.title = "Restore inputs";
+      restoreButton.addEventListener("click", () => this.restoreInputs(output.id));
+      buttonsContainer.appendChild(restoreButton);
+    }
+
     item.appendChild(buttonsContainer);
 
     return item;
   }
 
+  /**
+   * Fills an output's text element with its Markdown rendering, or with the plain text when raw text is on.
+   * @param {HTMLElement} element
+   * @param {OutputItem} output
+   */
+  renderOutputText(element: HTMLElement, output: OutputItem) {
+    element.classList.toggle("raw", !!output.rawText);
+    if (output.rawText) {
+      element.textContent = output.text;
+      return;
+    }
+    element.innerHTML = renderMarkdown(output.text);
+    GeminiImageManipulator.addCodeCopyButtons(element);
+  }
+
+  toggleRawText(id: string) {
+    const output = this.outputs.find((o) => o.id === id);
+    if (!output) return;
+    output.rawText = !output.rawText;
+    this.renderOutputs();
+    this.saveOutputs();
+  }
+
+  /**
+   * Shows a structured output as cards and tables, with any schema mismatches and the raw JSON below.
+   * @param {OutputItem} output
+   * @returns {HTMLElement}
+   */
+  createStructuredElement(output: OutputItem) {
+    const { value, errors } = output.structured!;
+    const element = document.createElement("div");
+    element.className = "output-structured";
+
+    if (errors.length > 0) {
+      const warning = document.createElement("div");
+      warning.className = "schema-errors";
+      warning.textContent = "⚠️ The response does not match the schema:";
+      const list = document.createElement("ul");
+      for (const error of errors) {
+        const item = document.createElement("li");
+        item.textContent = error;
+        list.appendChild(item);
+      }
+      warning.appendChild(list);
+      element.appendChild(warning);
+    }
+
+    if (value !== undefined) {
+      element.appendChild(GeminiImageManipulator.createJsonElement(value));
+    }
+
+    const raw = document.createElement("details");
+    raw.className = "output-raw-json";
+    if (value === undefined) raw.open = true;
+    const summary = document.createElement("summary");
+    summary.textContent = "Raw JSON";
+    const pre = document.createElement("pre");
+    pre.textContent = output.text;
+    raw.append(summary, pre);
+    element.appendChild(raw);
+
+    return element;
+  }
+
+  createErrorElement(error: OutputError) {
+    const element = document.createElement("div");
+    element.className = "output-error";
+
+    const title = document.createElement("strong");
+    title.textContent = GeminiImageManipulator.ERROR_TITLES[error.kind];
+    if (error.attempts && error.attempts > 1) title.textContent += ` (after ${error.attempts} attempts)`;
+    element.appendChild(title);
+
+    const message = document.createElement("div");
+    message.className = "output-error-message";
+    message.textContent = error.message;
+    element.appendChild(message);
+
+    const hint = GeminiImageManipulator.ERROR_HINTS[error.kind];
+    if (hint) {
+      const hintElement = document.createElement("div");
+      hintElement.className = "output-error-hint";
+      hintElement.textContent = hint;
+      element.appendChild(hintElement);
+    }
+
+    if (error.kind === "safety") {
+      if (error.finishReason) {
+        const reason = document.createElement("div");
+        reason.textContent = `Finish reason: ${error.finishReason}`;
+        element.appendChild(reason);
+      }
+
+      if (error.safetyRatings?.length) {
+        const ratings = document.createElement("ul");
+        ratings.className = "safety-ratings";
+        for (const rating of error.safetyRatings) {
+          const item = document.createElement("li");
+          if (rating.blocked) item.classList.add("blocked");
+          const category = rating.category
+            .replace(/^HARM_CATEGORY_/, "")
+            .replace(/_/g, " ")
+            .toLowerCase();
+          item.textContent = `${category}: ${rating.probability?.toLowerCase() ?? "unknown"}${rating.blocked ? " (blocked)" : ""}`;
+          ratings.appendChild(item);
+        }
+        element.appendChild(ratings);
+      }
+    }
+
+    return element;
+  }
+
+  createProvenanceElement(output: OutputItem) {
+    const provenance = output.provenance!;
+    const details = document.createElement("details");
+    details.className = "output-details";
+    details.open = this.openDetailsIds.has(output.id);
+    details.addEventListener("toggle", () => this.toggleOutputDetails(output.id, details.open));
+
+    const summary = document.createElement("summary");
+    const timestamp = new Date(provenance.timestamp).toLocaleString();
+    const usage = output.usage ? `${output.usage.estimated ? "~" : ""}${output.usage.totalTokens.toLocaleString()} tokens` : "";
+    summary.textContent = [provenance.model, usage, timestamp].filter(Boolean).join(" · ");
+    details.appendChild(summary);
+
+    const payload = document.createElement("pre");
+    payload.className = "output-details-payload";
+    payload.textContent = provenance.request ? JSON.stringify(provenance.request, null, 2) : "Request not sent yet.";
+    details.appendChild(payload);
+
+    return details;
+  }
+
   // --- Drag and Drop for Reordering ---
 
   handleDragStart(e: DragEvent, id: string) {
@@ -514,9 +3551,17 @@ class GeminiImageManipulator {
     if (e.preventDefault) {
       e.preventDefault();
     }
-    e.dataTransfer!.dropEffect = "move";
 
     const targetElement = e.currentTarget as HTMLElement;
+    if (GeminiImageManipulator.isFileDrag(e, this.draggedId)) {
+      // Files from the desktop are added to the item rather than inserted next to it
+      e.stopPropagation();
+      e.dataTransfer!.dropEffect = "copy";
+      targetElement.classList.add("drag-over-files");
+      return false;
+    }
+    e.dataTransfer!.dropEffect = "move";
+
     if (targetElement === this.draggedElement) {
       return;
     }
@@ -540,7 +3585,7 @@ class GeminiImageManipulator {
   }
 
   handleDragLeave(e: Event) {
-    (e.currentTarget as HTMLElement).classList.remove("drag-over-top", "drag-over-bottom");
+    (e.currentTarget as HTMLElement).classList.remove("drag-over-top", "drag-over-bottom", "drag-over-files");
   }
 
   handleDrop(e: DragEvent, targetId: string) {
@@ -550,268 +3595,663 @@ class GeminiImageManipulator {
     e.preventDefault();
 
     const targetElement = e.currentTarget as HTMLElement;
-    targetElement.classList.remove("drag-over-top", "drag-over-bottom");
+    targetElement.classList.remove("drag-over-top", "drag-over-bottom", "drag-over-files");
+
+    if (GeminiImageManipulator.isFileDrag(e, this.draggedId)) {
+      this.importDroppedFiles(Array.from(e.dataTransfer!.files), targetId);
+      return false;
+    }
 
     if (this.draggedId === targetId) {
       return;
     }
 
-    // Determine insertion position
-    const rect = targetElement.getBoundingClientRect();
-    const midpoint = rect.top + rect.height / 2;
-    const isTop = e.clientY < midpoint;
+    // Determine insertion position
+    const rect = targetElement.getBoundingClientRect();
+    const midpoint = rect.top + rect.height / 2;
+    const isTop = e.clientY < midpoint;
+
+    // Reorder messages array
+    const draggedIndex = this.messages.findIndex((msg) => msg.id === this.draggedId);
+    const targetIndex = this.messages.findIndex((msg) => msg.id === targetId);
+
+    if (draggedIndex === -1 || targetIndex === -1) return;
+
+    this.recordHistory("Reorder message items");
+    const [draggedMessage] = this.messages.splice(draggedIndex, 1);
+
+    let insertIndex = targetIndex;
+    if (draggedIndex < targetIndex) {
+      // If dragging down, adjust index
+      insertIndex = isTop ? targetIndex - 1 : targetIndex;
+    } else {
+      // If dragging up
+      insertIndex = isTop ? targetIndex : targetIndex + 1;
+    }
+
+    this.messages.splice(insertIndex, 0, draggedMessage);
+
+    this.renderMessages();
+    this.saveMessages();
+
+    return false;
+  }
+
+  /**
+   * Drops on the list outside any item add the files as new items.
+   * @param {DragEvent} e
+   */
+  handleListDragOver(e: DragEvent) {
+    if (!GeminiImageManipulator.isFileDrag(e, this.draggedId)) return;
+    e.preventDefault();
+    e.dataTransfer!.dropEffect = "copy";
+  }
+
+  handleListDrop(e: DragEvent) {
+    if (!GeminiImageManipulator.isFileDrag(e, this.draggedId)) return;
+    e.preventDefault();
+    this.importDroppedFiles(Array.from(e.dataTransfer!.files));
+  }
+
+  // --- 3. CORE LOGIC METHODS ---
+
+  async handleGenerateImage() {
+    const systemMsg = this.elements.systemMessage.value.trim();
+
+    const provider = this.getProvider();
+    if (!provider) return;
+
+    if (!systemMsg && this.messages.length === 0) {
+      alert("Please provide either a system message or at least one message item.");
+      return;
+    }
+
+    if (!this.confirmWithinBudget(this.getBatchSettings().variantCount)) return;
+
+    // Create output items immediately with placeholders
+    await this.runVariants("image", provider, this.getGenerationSettings());
+  }
+
+  async handleGenerateText() {
+    const systemMsg = this.elements.systemMessage.value.trim();
+
+    const provider = this.getProvider();
+    if (!provider) return;
+
+    if (!systemMsg && this.messages.length === 0) {
+      alert("Please provide either a system message or at least one message item.");
+      return;
+    }
+
+    if (this.elements.responseSchemaInput.value.trim() && !this.getResponseSchema()) {
+      alert("The response schema must be a JSON object.");
+      return;
+    }
+
+    if (!this.confirmWithinBudget(this.getBatchSettings().variantCount)) return;
+
+    // Create output items without image for text generation
+    await this.runVariants("text", provider, this.getGenerationSettings());
+  }
+
+  /**
+   * Runs the pipeline steps in order. Each step sends the message items followed by its own prompt, and runs once per
+   * output of the step before it, or once per item for forEach steps. A failed or cancelled output ends its branch.
+   */
+  async handleRunPipeline() {
+    const { steps, error } = this.parsePipelineText();
+    if (!steps?.length) {
+      alert(error ? `The pipeline is not valid: ${error}` : "Please add at least one pipeline step.");
+      return;
+    }
+
+    const provider = this.getProvider();
+    if (!provider) return;
+
+    // Later steps may fan out into more generations; the budget check in runOutput stops those
+    if (!this.confirmWithinBudget(steps.length)) return;
+
+    const { concurrency } = this.getBatchSettings();
+    const settings = this.getGenerationSettings();
+    const baseInputs = this.captureInputs();
+    // Like a batch, the first step continues the edit chain of the most recent message item taken from an output
+    const baseDerivedFrom = [...baseInputs.messages].reverse().find((msg) => msg.sourceOutputId)?.sourceOutputId;
+    const runId = `pipeline-${Date.now()}`;
+    const workspaceId = this.workspaceId;
+
+    await runPipeline<OutputItem>(steps, async (step, jobs) => {
+      const timestamp = Date.now();
+      const runs = await Promise.all(
+        jobs.map(async (job) => {
+          const inputs = await this.createStepInputs(baseInputs, step, job);
+          const output: OutputItem = {
+            ...this.createQueuedOutput(step.modality === "image", inputs, timestamp),
+            derivedFrom: job.parent?.id ?? baseDerivedFrom,
+            pipeline: { runId, stepId: step.id, item: job.item },
+          };
+          return { output, inputs };
+        })
+      );
+      // The run ends if another workspace was opened meanwhile
+      if (this.workspaceId !== workspaceId) return [];
+
+      this.outputs.unshift(...runs.map(({ output }) => output));
+      // Controllers exist from the start so queued outputs can be cancelled too
+      runs.forEach(({ output }) => this.abortControllers.set(output.id, new AbortController()));
+      this.renderOutputs();
+      this.saveOutputs();
+
+      await GeminiImageManipulator.runWithConcurrency(
+        runs.map(
+          ({ output, inputs }) =>
+            () =>
+              this.runOutput(output.id, step.modality, provider, settings, inputs)
+        ),
+        concurrency
+      );
+
+      return runs.map(({ output }) => {
+        const result = this.outputs.find((o) => o.id === output.id);
+        return result && !result.loading && !result.error && !result.status ? result : undefined;
+      });
+    });
+  }
+
+  /**
+   * The inputs of one pipeline step: the message items captured when the run started, followed by the step prompt
+   * with the images of the earlier steps it lists.
+   * @param {InputSnapshot} baseInputs
+   * @param {PipelineStep} step
+   * @param {StepJob<OutputItem>} job
+   * @returns {Promise<InputSnapshot>}
+   */
+  async createStepInputs(baseInputs: InputSnapshot, step: PipelineStep, job: StepJob<OutputItem>): Promise<InputSnapshot> {
+    const images: InputSnapshot["messages"][number]["images"] = [];
+    for (const stepId of step.images ?? []) {
+      const imageId = job.outputs[stepId]?.imageId;
+      const blob = imageId ? await getImage(this.store, imageId) : undefined;
+      if (blob) images.push({ blob, mimeType: blob.type });
+    }
+
+    return {
+      systemMessage: baseInputs.systemMessage,
+      messages: [...baseInputs.messages, { id: `step-${step.id}`, role: "user", text: step.prompt, images }],
+      variableValues: { ...baseInputs.variableValues, ...job.variableValues },
+      responseSchema: step.modality === "text" ? step.responseSchema : undefined,
+    };
+  }
 
-    // Reorder messages array
-    const draggedIndex = this.messages.findIndex((msg) => msg.id === this.draggedId);
-    const targetIndex = this.messages.findIndex((msg) => msg.id === targetId);
+  // --- Compare Mode ---
 
-    if (draggedIndex === -1 || targetIndex === -1) return;
+  addCompareVariant() {
+    this.compareVariants.push(GeminiImageManipulator.createCompareVariant(this.compareVariants.length));
+    this.renderCompareVariants();
+    this.saveCompareVariants();
+  }
 
-    const [draggedMessage] = this.messages.splice(draggedIndex, 1);
+  deleteCompareVariant(id: string) {
+    this.compareVariants = this.compareVariants.filter((variant) => variant.id !== id);
+    this.renderCompareVariants();
+    this.saveCompareVariants();
+  }
 
-    let insertIndex = targetIndex;
-    if (draggedIndex < targetIndex) {
-      // If dragging down, adjust index
-      insertIndex = isTop ? targetIndex - 1 : targetIndex;
-    } else {
-      // If dragging up
-      insertIndex = isTop ? targetIndex : targetIndex + 1;
+  /**
+   * Renders a form per compare variant. Two empty variants are offered to start with.
+   */
+  renderCompareVariants() {
+    if (this.compareVariants.length === 0) {
+      this.compareVariants = [GeminiImageManipulator.createCompareVariant(0), GeminiImageManipulator.createCompareVariant(1)];
     }
 
-    this.messages.splice(insertIndex, 0, draggedMessage);
+    const container = this.elements.compareVariantsContainer;
+    container.innerHTML = "";
 
-    this.renderMessages();
-    this.saveMessages();
+    for (const variant of this.compareVariants) {
+      const form = document.createElement("div");
+      form.className = "compare-variant settings-grid";
+
+      const addField = (labelText: string, field: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement, update: (value: string) => void) => {
+        const label = document.createElement("label");
+        label.textContent = labelText;
+        field.addEventListener("change", () => {
+          update(field.value);
+          this.saveCompareVariants();
+        });
+        form.append(label, field);
+      };
 
-    return false;
+      const labelInput = document.createElement("input");
+      labelInput.type = "text";
+      labelInput.value = variant.label;
+      addField("Label", labelInput, (value) => (variant.label = value.trim() || variant.label));
+
+      const providerSelect = document.createElement("select");
+      providerSelect.innerHTML = '<option value="">Same as Setup</option>';
+      for (const provider of PROVIDERS) {
+        const option = document.createElement("option");
+        option.value = provider.id;
+        option.textContent = provider.label;
+        providerSelect.appendChild(option);
+      }
+      providerSelect.value = variant.providerId;
+      addField("Provider", providerSelect, (value) => (variant.providerId = value));
+
+      const modelInput = document.createElement("input");
+      modelInput.type = "text";
+      modelInput.value = variant.model;
+      modelInput.placeholder = "Same as Model settings";
+      addField("Model", modelInput, (value) => (variant.model = value.trim()));
+
+      const readNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+      const temperatureInput = document.createElement("input");
+      temperatureInput.type = "number";
+      temperatureInput.min = "0";
+      temperatureInput.max = "2";
+      temperatureInput.step = "0.1";
+      temperatureInput.value = variant.temperature === undefined ? "" : String(variant.temperature);
+      temperatureInput.placeholder = "Same as Model settings";
+      addField("Temperature", temperatureInput, (value) => (variant.temperature = readNumber(value)));
+
+      const topPInput = document.createElement("input");
+      topPInput.type = "number";
+      topPInput.min = "0";
+      topPInput.max = "1";
+      topPInput.step = "0.05";
+      topPInput.value = variant.topP === undefined ? "" : String(variant.topP);
+      topPInput.placeholder = "Same as Model settings";
+      addField("Top P", topPInput, (value) => (variant.topP = readNumber(value)));
+
+      const systemMessageInput = document.createElement("textarea");
+      systemMessageInput.rows = 2;
+      systemMessageInput.value = variant.systemMessage;
+      systemMessageInput.placeholder = "Same as System message";
+      addField("System message", systemMessageInput, (value) => (variant.systemMessage = value.trim()));
+
+      const deleteButton = document.createElement("button");
+      deleteButton.className = "message-button";
+      deleteButton.innerHTML = "🗑️";
+      deleteButton.title = "Remove variant";
+      deleteButton.addEventListener("click", () => this.deleteCompareVariant(variant.id));
+      form.appendChild(deleteButton);
+
+      container.appendChild(form);
+    }
   }
 
-  // --- 3. CORE LOGIC METHODS ---
-
-  async handleGenerateImage() {
-    const { apiKeyInput, systemMessage } = this.elements;
-    const apiKey = apiKeyInput.value.trim();
-    const systemMsg = systemMessage.value.trim();
-
-    if (!apiKey) {
-      alert("Please provide an API Key.");
+  /**
+   * Runs the current inputs through every compare variant, "Variants" times each, into a new comparison grid.
+   * @param {Modality} modality
+   */
+  async handleCompare(modality: Modality) {
+    const variants = this.compareVariants.map((variant) => ({ ...variant }));
+    if (variants.length < 2) {
+      alert("Add at least two variants to compare.");
       return;
     }
 
-    if (!systemMsg && this.messages.length === 0) {
+    if (!this.elements.systemMessage.value.trim() && this.messages.length === 0 && variants.some((variant) => !variant.systemMessage)) {
       alert("Please provide either a system message or at least one message item.");
       return;
     }
 
-    // Create output item immediately with placeholder
-    const outputId = this.addOutput();
+    if (modality === "text" && this.elements.responseSchemaInput.value.trim() && !this.getResponseSchema()) {
+      alert("The response schema must be a JSON object.");
+      return;
+    }
 
-    try {
-      const ai = new GoogleGenAI({ apiKey });
-      await this.generateImageContent(ai, systemMsg, outputId);
-    } catch (error) {
-      console.error("Gemini API Error:", error);
-      this.updateOutput(outputId, GeminiImageManipulator.PLACEHOLDER_IMAGE, `Error: ${(error as Error).message || "An unknown error occurred."}`);
+    const providers: GenerationProvider[] = [];
+    for (const variant of variants) {
+      const provider = this.getProvider(variant.providerId || undefined);
+      if (!provider) return;
+      providers.push(provider);
     }
+
+    const { variantCount, concurrency } = this.getBatchSettings();
+    if (!this.confirmWithinBudget(variants.length * variantCount)) return;
+
+    const inputs = this.captureInputs();
+    const settings = this.getGenerationSettings();
+    const timestamp = Date.now();
+    const comparison: Comparison = { id: `comparison-${timestamp}`, modality, timestamp, variants, rows: [], votes: {} };
+    const tasks: (() => Promise<void>)[] = [];
+
+    for (let row = 0; row < variantCount; row++) {
+      comparison.rows.push(
+        variants.map((variant, column) => {
+          const variantInputs = variant.systemMessage ? { ...inputs, systemMessage: variant.systemMessage } : inputs;
+          const variantSettings = GeminiImageManipulator.applyCompareVariant(settings, variant);
+          const output: OutputItem = { ...this.createQueuedOutput(modality === "image", variantInputs, timestamp), comparisonId: comparison.id };
+          this.outputs.unshift(output);
+          // Controllers exist from the start so queued cells can be cancelled too
+          this.abortControllers.set(output.id, new AbortController());
+          tasks.push(() => this.runOutput(output.id, modality, providers[column], variantSettings, variantInputs));
+          return output.id;
+        })
+      );
+    }
+
+    this.comparisons.unshift(comparison);
+    this.saveComparisons();
+    this.renderOutputs();
+    this.saveOutputs();
+
+    await GeminiImageManipulator.runWithConcurrency(tasks, concurrency);
   }
 
-  async handleGenerateText() {
-    const { apiKeyInput, systemMessage } = this.elements;
-    const apiKey = apiKeyInput.value.trim();
-    const systemMsg = systemMessage.value.trim();
+  /**
+   * Marks a variant as the preferred result of one row in a comparison, or clears the vote if it already is.
+   * @param {string} comparisonId
+   * @param {number} row
+   * @param {string} variantId
+   */
+  voteComparison(comparisonId: string, row: number, variantId: string) {
+    const comparison = this.comparisons.find((c) => c.id === comparisonId);
+    if (!comparison) return;
 
-    if (!apiKey) {
-      alert("Please provide an API Key.");
-      return;
+    if (comparison.votes[row] === variantId) {
+      delete comparison.votes[row];
+    } else {
+      comparison.votes[row] = variantId;
     }
+    this.renderComparisons();
+    this.saveComparisons();
+  }
 
-    if (!systemMsg && this.messages.length === 0) {
-      alert("Please provide either a system message or at least one message item.");
-      return;
+  /**
+   * Creates the selected provider, or alerts and returns null if its API key is missing.
+   * @param {string} [providerId] Overrides the selected provider, e.g. to retry with the one recorded on an output
+   * @returns {GenerationProvider | null}
+   */
+  getProvider(providerId?: string): GenerationProvider | null {
+    const settings = { ...this.getProviderSettings(), ...(providerId ? { providerId } : {}) };
+    const info = PROVIDERS.find((provider) => provider.id === settings.providerId);
+    if (info?.requiresApiKey && !settings.apiKey) {
+      alert("Please provide an API Key.");
+      return null;
     }
+    return createProvider(settings);
+  }
 
-    // Create output item without image for text generation
-    const outputId = this.addOutput(false);
+  getBatchSettings() {
+    const clamp = (value: number, max: number) => Math.min(Math.max(Math.floor(value) || 1, 1), max);
+    return {
+      variantCount: clamp(this.elements.variantCountInput.valueAsNumber, GeminiImageManipulator.MAX_VARIANTS),
+      concurrency: clamp(this.elements.concurrencyInput.valueAsNumber, GeminiImageManipulator.MAX_VARIANTS),
+    };
+  }
 
-    try {
-      const ai = new GoogleGenAI({ apiKey });
-      await this.generateTextContent(ai, systemMsg, outputId);
-    } catch (error) {
-      console.error("Gemini API Error:", error);
-      this.updateOutput(outputId, null, `Error: ${(error as Error).message || "An unknown error occurred."}`);
-    }
+  /**
+   * Creates one output per requested variant and runs the generation for each, at most `concurrency` at a time.
+   * All variants use the inputs as they were when the batch started, even if the editor changes meanwhile.
+   * @param {Modality} modality
+   * @param {GenerationProvider} provider
+   * @param {GenerationSettings} settings
+   */
+  async runVariants(modality: Modality, provider: GenerationProvider, settings: GenerationSettings) {
+    const { variantCount, concurrency } = this.getBatchSettings();
+    const inputs = this.captureInputs();
+    const outputIds = this.addOutputGroup(variantCount, modality === "image", inputs);
+
+    // Controllers exist from the start so queued variants can be cancelled too
+    outputIds.forEach((outputId) => this.abortControllers.set(outputId, new AbortController()));
+
+    await GeminiImageManipulator.runWithConcurrency(
+      outputIds.map((outputId) => () => this.runOutput(outputId, modality, provider, settings, inputs)),
+      concurrency
+    );
   }
 
   /**
-   * Calls the Gemini API and handles the streaming response.
-   * @param {GoogleGenAI} ai
-   * @param {string} systemMsg
+   * Generates into one output, retrying transient failures, turning errors into error outputs and aborts into cancelled ones.
    * @param {string} outputId
+   * @param {Modality} modality
+   * @param {GenerationProvider} provider
+   * @param {GenerationSettings} settings
+   * @param {InputSnapshot} inputs
    */
-  async generateImageContent(ai: GoogleGenAI, systemMsg: string, outputId: string) {
-    // Build parts array from messages
-    const parts = [];
+  async runOutput(outputId: string, modality: Modality, provider: GenerationProvider, settings: GenerationSettings, inputs: InputSnapshot) {
+    const controller = this.abortControllers.get(outputId) ?? new AbortController();
+    this.abortControllers.set(outputId, controller);
+    let attempts = 0;
 
-    // Add system message as a user message
-    // This appears to be a bug. Image model ignores real system message
-    if (systemMsg) {
-      parts.push({ text: systemMsg.trim() });
-    }
+    try {
+      // Cancelled while queued
+      if (controller.signal.aborted) return;
 
-    // Add user messages
-    for (const message of this.messages) {
-      // Skip empty items (no image and no text)
-      if (!message.image && !message.text.trim()) {
-        continue;
-      }
-
-      // If message has an image, add text first (with "See image:" suffix), then the image
-      if (message.image) {
-        // Add text if present, or just "See image:"
-        const textContent = message.text.trim();
-        const textWithPrompt = textContent ? `${textContent}\nSee image:` : "See image:";
-        parts.push({ text: textWithPrompt });
-
-        // Then add the image
-        const base64Data = await GeminiImageManipulator.blobToBase64(message.image.blob);
-        const imagePart = {
-          inlineData: {
-            data: base64Data,
-            mimeType: message.image.mimeType,
+      // Queued generations of a batch stop once the budget is used up
+      if (this.isOverBudget()) {
+        this.cancelOutput(outputId);
+        return;
+      }
+
+      await withRetry(
+        (attempt) => {
+          attempts = attempt;
+          this.startOutput(outputId);
+          return modality === "image"
+            ? this.generateImageContent(provider, settings, inputs, outputId, controller.signal)
+            : this.generateTextContent(provider, settings, inputs, outputId, controller.signal);
+        },
+        {
+          maxRetries: settings.maxRetries,
+          signal: controller.signal,
+          onRetry: (error, attempt, delayMs) => {
+            const title = GeminiImageManipulator.ERROR_TITLES[error.kind];
+            const seconds = Math.ceil(delayMs / 1000);
+            this.streamOutput(
+              outputId,
+              `${GeminiImageManipulator.RETRYING_TEXT} in ${seconds}s (attempt ${attempt + 1} of ${settings.maxRetries + 1}) after: ${title}`
+            );
           },
-        };
-        parts.push(imagePart);
-      } else {
-        // If no image, just add text if present
-        if (message.text.trim()) {
-          parts.push({ text: message.text.trim() });
         }
-      }
+      );
+    } catch (error) {
+      if (controller.signal.aborted) return; // cancelOutput already kept the partial result
+      console.error("Generation API Error:", error);
+      this.failOutput(outputId, modality === "image" ? GeminiImageManipulator.PLACEHOLDER_IMAGE : null, error as GenerationError, attempts);
+    } finally {
+      this.abortControllers.delete(outputId);
     }
+  }
 
-    const contents = [
-      {
-        role: "user",
-        parts,
-      },
-    ];
-
-    const config = {
-      responseModalities: ["IMAGE"],
-    };
-
-    const response = await ai.models.generateContentStream({
-      model: GeminiImageManipulator.MODEL,
-      config,
-      contents,
-    });
-
-    let generatedImageUrls = [];
+  /**
+   * Calls the provider's image model and handles the streaming response.
+   * @param {GenerationProvider} provider
+   * @param {GenerationSettings} settings
+   * @param {InputSnapshot} inputs
+   * @param {string} outputId
+   * @param {AbortSignal} [signal]
+   */
+  async generateImageContent(
+    provider: GenerationProvider,
+    settings: GenerationSettings,
+    inputs: InputSnapshot,
+    outputId: string,
+    signal?: AbortSignal
+  ) {
+    const request = await buildRequest(
+      inputs,
+      { modality: "image", model: settings.imageModel || provider.defaultModels.image, config: settings.config },
+      GeminiImageManipulator.createImageParts
+    );
+
+    this.recordRequest(outputId, provider, request);
+
+    let generatedImages: Blob[] = [];
     let textContent = "";
+    let usage: TokenUsage | undefined;
+    const finish: { finishReason?: string; safetyRatings?: SafetyRating[]; blockReason?: string } = {};
+
+    let finished = false;
 
-    for await (const chunk of response) {
-      const parts = chunk.candidates?.[0]?.content?.parts || [];
-      for (const part of parts) {
-        if (part.inlineData) {
-          const { mimeType: imgMimeType, data } = part.inlineData;
-          const imageUrl = `data:${imgMimeType};base64,${data}`;
-          generatedImageUrls.push(imageUrl);
-        } else if (part.text) {
-          textContent += part.text;
+    try {
+      for await (const chunk of provider.generateStream({ ...request, signal })) {
+        if (chunk.image) {
+          generatedImages.push(GeminiImageManipulator.base64ToBlob(chunk.image.data, chunk.image.mimeType));
+        } else if (chunk.text) {
+          textContent += chunk.text;
         }
+        if (chunk.usage) usage = chunk.usage;
+        Object.assign(finish, GeminiImageManipulator.pickFinishInfo(chunk));
       }
+      finished = true;
+    } finally {
+      // Blocked, empty, failed and cancelled attempts use tokens too; only a finished one is estimated without a count
+      if (usage || finished) this.recordUsage(outputId, usage ?? estimateUsage(request, textContent), generatedImages.length);
     }
 
-    // Update output with results
-    if (generatedImageUrls.length > 0) {
-      const finalImageUrl = generatedImageUrls[0];
-      this.updateOutput(outputId, finalImageUrl, textContent || "Image successfully generated.");
-    } else {
-      this.updateOutput(outputId, GeminiImageManipulator.PLACEHOLDER_IMAGE, textContent || "Generation complete, but no image was returned.");
+    // A response without an image was either blocked or empty
+    if (generatedImages.length === 0) {
+      throw emptyResponseError(finish, textContent);
     }
+
+    // Update output with results
+    const finalImageUrl = await this.storeOutputImage(outputId, generatedImages[0]);
+    this.updateOutput(outputId, finalImageUrl, textContent || "Image successfully generated.");
   }
 
   /**
-   * Calls the Gemini API for text generation and handles the streaming response.
-   * @param {GoogleGenAI} ai
-   * @param {string} systemMsg
+   * Calls the provider's text model and handles the streaming response.
+   * @param {GenerationProvider} provider
+   * @param {GenerationSettings} settings
+   * @param {InputSnapshot} inputs
    * @param {string} outputId
+   * @param {AbortSignal} [signal]
    */
-  async generateTextContent(ai: GoogleGenAI, systemMsg: string, outputId: string) {
-    // Build parts array from messages
-    const parts = [];
+  async generateTextContent(
+    provider: GenerationProvider,
+    settings: GenerationSettings,
+    inputs: InputSnapshot,
+    outputId: string,
+    signal?: AbortSignal
+  ) {
+    const request = await buildRequest(
+      inputs,
+      { modality: "text", model: settings.textModel || provider.defaultModels.text, config: settings.config },
+      GeminiImageManipulator.createImageParts
+    );
+
+    this.recordRequest(outputId, provider, request);
 
-    // Add user messages
-    for (const message of this.messages) {
-      // Skip empty items (no image and no text)
-      if (!message.image && !message.text.trim()) {
-        continue;
-      }
-
-      // If message has an image, add text first (with "See image:" suffix), then the image
-      if (message.image) {
-        // Add text if present, or just "See image:"
-        const textContent = message.text.trim();
-        const textWithPrompt = textContent ? `${textContent} See image:` : "See image:";
-        parts.push({ text: textWithPrompt });
-
-        // Then add the image
-        const base64Data = await GeminiImageManipulator.blobToBase64(message.image.blob);
-        const imagePart = {
-          inlineData: {
-            data: base64Data,
-            mimeType: message.image.mimeType,
-          },
-        };
-        parts.push(imagePart);
-      } else {
-        // If no image, just add text if present
-        if (message.text.trim()) {
-          parts.push({ text: message.text.trim() });
-        }
+    let textContent = "";
+    let usage: TokenUsage | undefined;
+    const finish: { finishReason?: string; safetyRatings?: SafetyRating[]; blockReason?: string } = {};
+
+    let finished = false;
+
+    try {
+      for await (const chunk of provider.generateStream({ ...request, signal })) {
+        const chunkText = chunk.text || "";
+        textContent += chunkText;
+        if (chunk.usage) usage = chunk.usage;
+        Object.assign(finish, GeminiImageManipulator.pickFinishInfo(chunk));
+
+        // Update output with streaming text (no image)
+        if (chunkText) this.streamOutput(outputId, textContent);
       }
+      finished = true;
+    } finally {
+      // Blocked, empty, failed and cancelled attempts use tokens too; only a finished one is estimated without a count
+      if (usage || finished) this.recordUsage(outputId, usage ?? estimateUsage(request, textContent), 0);
     }
 
-    const contents = [
-      {
-        role: "user",
-        parts,
-      },
-    ];
+    // Blocked mid-stream or nothing returned; partial text stays on the output
+    if (!textContent || finish.blockReason || isSafetyFinish(finish.finishReason)) {
+      throw emptyResponseError(finish, textContent);
+    }
 
-    const config: any = {
-      responseModalities: ["TEXT"],
-    };
+    // Final update to mark as complete, with the parsed result when JSON was requested
+    const structured = inputs.responseSchema ? parseStructuredOutput(textContent, inputs.responseSchema) : undefined;
+    this.updateOutput(outputId, null, textContent, structured);
+  }
 
-    // Set system instruction in config if present
-    if (systemMsg) {
-      config.systemInstruction = systemMsg;
-    }
+  // --- 5. UTILITY PURE FUNCTIONS (Static) ---
 
-    const response = await ai.models.generateContentStream({
-      model: GeminiImageManipulator.TEXT_MODEL,
-      config,
-      contents,
-    });
+  /**
+   * Copies text to the clipboard and briefly shows a check mark on the button that triggered it.
+   * @param {string} text
+   * @param {HTMLButtonElement} button
+   */
+  static async copyToClipboard(text: string, button: HTMLButtonElement) {
+    try {
+      await navigator.clipboard.writeText(text);
+      const label = button.innerHTML;
+      button.innerHTML = "✅";
+      setTimeout(() => (button.innerHTML = label), 1000);
+    } catch (error) {
+      console.error("Error copying to clipboard:", error);
+      alert("Failed to copy to clipboard.");
+    }
+  }
 
-    let textContent = "";
+  /**
+   * Adds a copy button to every code block in rendered Markdown.
+   * @param {HTMLElement} container
+   */
+  static addCodeCopyButtons(container: HTMLElement) {
+    for (const pre of container.querySelectorAll("pre")) {
+      const code = pre.querySelector("code") ?? pre;
+      const button = document.createElement("button");
+      button.className = "code-copy-button";
+      button.innerHTML = "📋";
+      button.title = "Copy code";
+      button.addEventListener("click", () => GeminiImageManipulator.copyToClipboard(code.textContent ?? "", button));
+      pre.appendChild(button);
+    }
+  }
 
-    for await (const chunk of response) {
-      const chunkText = chunk.text || "";
-      textContent += chunkText;
+  /**
+   * Renders a JSON value for reading: arrays of flat objects as tables, other objects as cards of fields.
+   * @param {unknown} value
+   * @returns {HTMLElement}
+   */
+  static createJsonElement(value: unknown): HTMLElement {
+    const isObject = (item: unknown): item is Record<string, unknown> => typeof item === "object" && item !== null && !Array.isArray(item);
+
+    if (Array.isArray(value)) {
+      const isFlat = (item: unknown) => isObject(item) && Object.values(item).every((field) => typeof field !== "object" || field === null);
+      if (value.length > 0 && value.every(isFlat)) {
+        const columns = [...new Set(value.flatMap((item) => Object.keys(item)))];
+        const table = document.createElement("table");
+        table.className = "json-table";
+        const header = table.createTHead().insertRow();
+        for (const column of columns) {
+          const cell = document.createElement("th");
+          cell.textContent = column;
+          header.appendChild(cell);
+        }
+        const body = table.createTBody();
+        for (const item of value) {
+          const row = body.insertRow();
+          for (const column of columns) row.insertCell().textContent = item[column] === undefined ? "" : String(item[column]);
+        }
+        return table;
+      }
 
-      // Update output with streaming text (no image)
-      this.updateOutput(outputId, null, textContent);
+      const list = document.createElement("div");
+      list.className = "json-list";
+      value.forEach((item) => list.appendChild(GeminiImageManipulator.createJsonElement(item)));
+      return list;
     }
 
-    // Final update to mark as complete
-    if (!textContent) {
-      textContent = "Text generation complete, but no text was returned.";
+    if (isObject(value)) {
+      const card = document.createElement("dl");
+      card.className = "json-card";
+      for (const [key, field] of Object.entries(value)) {
+        const term = document.createElement("dt");
+        term.textContent = key;
+        const detail = document.createElement("dd");
+        detail.appendChild(GeminiImageManipulator.createJsonElement(field));
+        card.append(term, detail);
+      }
+      return card;
     }
-    this.updateOutput(outputId, null, textContent);
-  }
 
-  // --- 5. UTILITY PURE FUNCTIONS (Static) ---
+    const text = document.createElement("span");
+    text.className = "json-value";
+    text.textContent = String(value);
+    return text;
+  }
 
   /**
    * Converts a Blob object into a base64 string (for API transmission).
@@ -831,6 +4271,395 @@ class GeminiImageManipulator {
     });
   }
 
+  /**
+   * Deep-copies a request payload, replacing inline base64 data with a short description of its size.
+   * @param {T} value
+   * @returns {T}
+   */
+  static elideInlineData<T>(value: T): T {
+    return JSON.parse(
+      JSON.stringify(value, (key, item) => (key === "data" && typeof item === "string" ? `<${item.length} base64 characters>` : item))
+    );
+  }
+
+  /**
+   * Extracts the finish reason, safety ratings and block reason a chunk carries, if any.
+   * @param {GenerationChunk} chunk
+   */
+  static pickFinishInfo(chunk: GenerationChunk) {
+    const { finishReason, safetyRatings, blockReason } = chunk;
+    return Object.fromEntries(Object.entries({ finishReason, safetyRatings, blockReason }).filter(([, value]) => value !== undefined));
+  }
+
+  /**
+   * Marks an output that was still loading when the page closed as interrupted, dropping its placeholder text.
+   * @param {OutputItem} output
+   * @returns {OutputItem}
+   */
+  static toInterruptedOutput(output: OutputItem): OutputItem {
+    return {
+      ...output,
+      loading: false,
+      status: "interrupted",
+      text: GeminiImageManipulator.isPendingText(output.text) ? "" : output.text,
+    };
+  }
+
+  /**
+   * Describes an output for the export manifest, with variables filled into the prompt and messages.
+   * @param {OutputItem} output
+   * @param {string} file Path of the output's file in the archive
+   * @param {boolean} isImage
+   * @returns {ArchiveEntry}
+   */
+  static toArchiveEntry(output: OutputItem, file: string, isImage: boolean): ArchiveEntry {
+    const provenance = output.provenance;
+    const messages = (provenance?.messages ?? []).map((message) => ({
+      role: message.role,
+      text: substituteVariables(message.text, provenance!.variableValues),
+    }));
+
+    return {
+      file,
+      modality: isImage ? "image" : "text",
+      prompt: messages
+        .filter((message) => message.role === "user")
+        .map((message) => message.text)
+        .join("\n\n"),
+      systemMessage: provenance ? substituteVariables(provenance.systemMessage, provenance.variableValues) : "",
+      messages,
+      provider: provenance?.provider,
+      model: provenance?.model,
+      config: provenance?.config,
+      timestamp: provenance?.timestamp,
+      text: isImage ? output.text : undefined,
+      rating: output.rating,
+      tags: output.tags,
+      favorite: output.favorite,
+      notes: output.notes,
+    };
+  }
+
+  /**
+   * Returns PNG and JPEG images as they are, and converts other formats (e.g. WebP or SVG) to PNG.
+   * @param {Blob} blob
+   * @returns {Promise<Blob>}
+   */
+  static async toPngOrJpeg(blob: Blob): Promise<Blob> {
+    if (blob.type === "image/png" || blob.type === "image/jpeg") return blob;
+
+    const url = URL.createObjectURL(blob);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+
+      const canvas = document.createElement("canvas");
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      canvas.getContext("2d")!.drawImage(image, 0, 0);
+      return await new Promise((resolve, reject) =>
+        canvas.toBlob((png) => (png ? resolve(png) : reject(new Error("Could not convert the image to PNG."))), "image/png")
+      );
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Checks an output against the gallery filters. Search matches every word in the text, notes or tags, ignoring case.
+   * @param {OutputItem} output
+   * @param {GalleryFilter} filter
+   * @param {number} now
+   * @returns {boolean}
+   */
+  static matchesGalleryFilter(output: OutputItem, filter: GalleryFilter, now: number): boolean {
+    if (filter.favoritesOnly && !output.favorite) return false;
+    if (filter.minRating > 0 && (output.rating ?? 0) < filter.minRating) return false;
+    if (filter.tag && !output.tags?.includes(filter.tag)) return false;
+
+    const modality = output.provenance?.modality ?? (output.imageId || output.imageUrl ? "image" : "text");
+    if (filter.modality && modality !== filter.modality) return false;
+
+    if (filter.days > 0 && (output.provenance?.timestamp ?? 0) < now - filter.days * 24 * 60 * 60 * 1000) return false;
+
+    if (filter.search) {
+      const haystack = [output.text, output.notes ?? "", ...(output.tags ?? [])].join("\n").toLowerCase();
+      return filter.search
+        .toLowerCase()
+        .split(/\s+/)
+        .every((word) => haystack.includes(word));
+    }
+    return true;
+  }
+
+  /**
+   * @returns {UsageTotal} An empty total without a budget, counting from now.
+   */
+  static createUsageTotal(): UsageTotal {
+    return { tokens: 0, images: 0, since: Date.now(), budget: 0 };
+  }
+
+  /**
+   * Whether a template matches every word of a gallery search in its name, description, author or tags.
+   * @param {string} name
+   * @param {Template} template
+   * @param {string} query
+   * @returns {boolean}
+   */
+  static matchesTemplateSearch(name: string, template: Template, query: string): boolean {
+    const haystack = [name, template.description ?? "", template.author ?? "", ...(template.tags ?? [])].join("\n").toLowerCase();
+    return query
+      .trim()
+      .toLowerCase()
+      .split(/\s+/)
+      .every((word) => haystack.includes(word));
+  }
+
+  /**
+   * Creates a compare variant without overrides, labelled A, B, C... by position.
+   * @param {number} index
+   * @returns {CompareVariant}
+   */
+  static createCompareVariant(index: number): CompareVariant {
+    const label = String.fromCharCode("A".charCodeAt(0) + (index % 26));
+    return { id: crypto.randomUUID(), label, providerId: "", model: "", systemMessage: "" };
+  }
+
+  /**
+   * Applies a compare variant's overrides to the settings panel values.
+   * A variant with its own provider uses that provider's default model unless it names one.
+   * @param {GenerationSettings} settings
+   * @param {CompareVariant} variant
+   * @returns {GenerationSettings}
+   */
+  static applyCompareVariant(settings: GenerationSettings, variant: CompareVariant): GenerationSettings {
+    const model = (current: string) => variant.model || (variant.providerId ? "" : current);
+    const config = { ...settings.config };
+    if (variant.temperature !== undefined) config.temperature = variant.temperature;
+    if (variant.topP !== undefined) config.topP = variant.topP;
+    return { ...settings, imageModel: model(settings.imageModel), textModel: model(settings.textModel), config };
+  }
+
+  /**
+   * Summarizes what a compare variant changes, e.g. "gemini-2.5-flash · temperature 1.2 · own system message".
+   * @param {CompareVariant} variant
+   * @returns {string}
+   */
+  static describeCompareVariant(variant: CompareVariant): string {
+    const parts: string[] = [];
+    if (variant.providerId) parts.push(PROVIDERS.find((provider) => provider.id === variant.providerId)?.label ?? variant.providerId);
+    if (variant.model) parts.push(variant.model);
+    if (variant.temperature !== undefined) parts.push(`temperature ${variant.temperature}`);
+    if (variant.topP !== undefined) parts.push(`top P ${variant.topP}`);
+    if (variant.systemMessage) parts.push("own system message");
+    return parts.join(" · ") || "Current settings";
+  }
+
+  /**
+   * Prepares an output for undo history: a generation in progress is kept as cancelled, and object URLs are dropped.
+   * @param {OutputItem} output
+   * @returns {OutputItem}
+   */
+  static toDeletedOutput(output: OutputItem): OutputItem {
+    const stopped = output.loading ? { ...GeminiImageManipulator.toInterruptedOutput(output), status: "cancelled" as const } : output;
+    return { ...stopped, imageUrl: output.imageId ? null : output.imageUrl };
+  }
+
+  /**
+   * Turns a message image into request parts. An annotated image is sent with its marks drawn on it, or in mask mode,
+   * as the original followed by the mask instruction and the mask.
+   * @param {Omit<MessageImage, "dataUrl">} image
+   * @returns {Promise<GenerationPart[]>}
+   */
+  static async createImageParts(image: Omit<MessageImage, "dataUrl">): Promise<GenerationPart[]> {
+    const toPart = async (blob: Blob, mimeType: string = blob.type): Promise<GenerationPart> => ({
+      inlineData: { data: await GeminiImageManipulator.blobToBase64(blob), mimeType },
+    });
+    const annotation = image.annotation;
+
+    if (!annotation) return [await toPart(image.blob, image.mimeType)];
+    if (annotation.mode === "composite") return [await toPart(await renderComposite(image.blob, annotation))];
+    return [await toPart(image.blob, image.mimeType), { text: maskInstruction(annotation) }, await toPart(await renderMask(image.blob, annotation))];
+  }
+
+  /**
+   * Whether a drag carries files from outside the page, as opposed to a message item being reordered.
+   * @param {DragEvent} e
+   * @param {string | null} draggedId
+   * @returns {boolean}
+   */
+  static isFileDrag(e: DragEvent, draggedId: string | null): boolean {
+    return draggedId === null && !!e.dataTransfer?.types.includes("Files");
+  }
+
+  /**
+   * Whether a dropped file should become a text item. Browsers leave the type empty for some text formats, e.g. Markdown.
+   * @param {File} file
+   * @returns {boolean}
+   */
+  static isTextFile(file: File): boolean {
+    return file.type.startsWith("text/") || file.type === "application/json" || /\.(txt|md|markdown|csv|json)$/i.test(file.name);
+  }
+
+  /**
+   * Splits comma-separated tags, dropping empty ones and duplicates.
+   * @param {string} input
+   * @returns {string[]}
+   */
+  static parseTags(input: string): string[] {
+    return [
+      ...new Set(
+        input
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean)
+      ),
+    ];
+  }
+
+  /**
+   * Adds display data URLs to stored images.
+   * @param {Omit<MessageImage, "dataUrl">[]} images
+   * @returns {Promise<MessageImage[]>}
+   */
+  static withDataUrls(images: Omit<MessageImage, "dataUrl">[]): Promise<MessageImage[]> {
+    return Promise.all(images.map(async (image) => ({ ...image, dataUrl: await GeminiImageManipulator.blobToDataUrl(image.blob) })));
+  }
+
+  /**
+   * Orders outputs oldest first. Outputs created together keep their order in the gallery, which is their creation order.
+   * @param {OutputItem[]} outputs
+   * @returns {OutputItem[]}
+   */
+  static sortByCreation(outputs: OutputItem[]): OutputItem[] {
+    return [...outputs].sort((a, b) => (a.provenance?.timestamp ?? 0) - (b.provenance?.timestamp ?? 0));
+  }
+
+  /**
+   * Orders the outputs of a pipeline run depth first along their derivedFrom links, siblings in creation order.
+   * Outputs whose parent is not part of the run are roots.
+   * @param {OutputItem[]} outputs
+   * @returns {{ output: OutputItem; depth: number }[]}
+   */
+  static orderPipelineTree(outputs: OutputItem[]): { output: OutputItem; depth: number }[] {
+    const ids = new Set(outputs.map((output) => output.id));
+    const byCreation = GeminiImageManipulator.sortByCreation(outputs);
+    const ordered: { output: OutputItem; depth: number }[] = [];
+
+    const visit = (parentId: string | undefined, depth: number) => {
+      for (const output of byCreation) {
+        const isChild = parentId === undefined ? !output.derivedFrom || !ids.has(output.derivedFrom) : output.derivedFrom === parentId;
+        if (!isChild) continue;
+        ordered.push({ output, depth });
+        visit(output.id, depth + 1);
+      }
+    };
+    visit(undefined, 0);
+
+    return ordered;
+  }
+
+  /**
+   * Drops the display data URL from a message item, for storage and snapshots.
+   * @param {MessageItem} message
+   * @returns {InputSnapshot["messages"][number]}
+   */
+  static toStoredMessage(message: MessageItem): InputSnapshot["messages"][number] {
+    return {
+      id: message.id,
+      role: message.role,
+      text: message.text,
+      images: message.images.map((image) => ({ blob: image.blob, mimeType: image.mimeType, annotation: image.annotation, imageId: image.imageId })),
+      sourceOutputId: message.sourceOutputId,
+    };
+  }
+
+  static isPendingText(text: string): boolean {
+    return text === GeminiImageManipulator.QUEUED_TEXT || text === GeminiImageManipulator.GENERATING_TEXT;
+  }
+
+  /**
+   * Decodes base64 data (as returned by the API) into a Blob.
+   * @param {string} base64
+   * @param {string} mimeType
+   * @returns {Blob}
+   */
+  static base64ToBlob(base64: string, mimeType: string): Blob {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  }
+
+  /**
+   * Runs async tasks with at most `limit` of them in flight, preserving result order.
+   * @param {(() => Promise<T>)[]} tasks
+   * @param {number} limit
+   * @returns {Promise<PromiseSettledResult<T>[]>}
+   */
+  static async runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<PromiseSettledResult<T>[]> {
+    const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < tasks.length) {
+        const index = nextIndex++;
+        try {
+          results[index] = { status: "fulfilled", value: await tasks[index]() };
+        } catch (reason) {
+          results[index] = { status: "rejected", reason };
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+    return results;
+  }
+
+  /**
+   * Saves a Blob as a file through a temporary download link.
+   * @param {Blob} blob
+   * @param {string} filename
+   */
+  static downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Turns a display name into a safe file name stem.
+   * @param {string} name
+   * @returns {string}
+   */
+  static toFileName(name: string): string {
+    return (
+      name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "untitled"
+    );
+  }
+
+  /**
+   * Converts a data URL back into a Blob object (for storage and API transmission).
+   * @param {string} dataUrl
+   * @returns {Promise<Blob>} Blob with the data URL's MIME type.
+   */
+  static async dataUrlToBlob(dataUrl: string): Promise<Blob> {
+    const response = await fetch(dataUrl);
+    return response.blob();
+  }
+
   /**
    * Converts a Blob object into a data URL (for UI display).
    * @param {Blob} blob
@@ -0,0 +1,23 @@
+import DOMPurify from "dompurify";
+import { Marked } from "marked";
+
+const markdown = new Marked({ gfm: true, breaks: true, async: false });
+
+// Links in model output open in a new tab, without giving the page a handle on this one
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (node.tagName === "A" && node.hasAttribute("href")) {
+    node.setAttribute("target", "_blank");
+    node.setAttribute("rel", "noopener noreferrer");
+  }
+});
+
+/**
+ * Renders model output Markdown as sanitized HTML. Scripts, event handlers and unsafe URLs (e.g. javascript:) are removed.
+ * Unfinished Markdown, such as an unclosed code fence while streaming, renders as far as it goes.
+ * @param {string} text
+ * @returns {string} HTML that is safe to assign to innerHTML.
+ */
+export function renderMarkdown(text: string): string {
+  const html = markdown.parse(text, { async: false });
+  return DOMPurify.sanitize(html, { USE_PROFILES: { html: true } });
+}
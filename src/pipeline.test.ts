@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { isPipelineVariable, pipelineItems, runPipeline, type StepJob, type StepOutput } from "./pipeline";
+import type { PipelineStep } from "./types";
+
+interface TestOutput extends StepOutput {
+  id: string;
+}
+
+/**
+ * Runs the steps, answering each job with `respond` and recording the jobs each step received.
+ * @param {PipelineStep[]} steps
+ * @param {(step: PipelineStep, job: StepJob<TestOutput>, index: number) => string | undefined} respond Undefined fails the job
+ */
+async function run(steps: PipelineStep[], respond: (step: PipelineStep, job: StepJob<TestOutput>, index: number) => string | undefined) {
+  const calls: { stepId: string; jobs: StepJob<TestOutput>[] }[] = [];
+  await runPipeline<TestOutput>(steps, async (step, jobs) => {
+    calls.push({ stepId: step.id, jobs });
+    return jobs.map((job, index) => {
+      const text = respond(step, job, index);
+      return text === undefined ? undefined : { id: `${step.id}-${index}`, text };
+    });
+  });
+  return calls;
+}
+
+describe("isPipelineVariable", () => {
+  it("matches the item and step variables only", () => {
+    expect(isPipelineVariable("item")).toBe(true);
+    expect(isPipelineVariable("steps.ideas")).toBe(true);
+    expect(isPipelineVariable("object")).toBe(false);
+  });
+});
+
+describe("pipelineItems", () => {
+  it("uses the elements of a parsed array, serializing non-strings", () => {
+    expect(pipelineItems("ignored", ["a", { b: 1 }, 2])).toEqual(["a", '{"b":1}', "2"]);
+  });
+
+  it("uses the first array in a parsed object", () => {
+    expect(pipelineItems("ignored", { title: "Ideas", ideas: ["a", "b"] })).toEqual(["a", "b"]);
+  });
+
+  it("splits text into non-empty lines without list markers", () => {
+    expect(pipelineItems("- one\n\n* two\n3. three\n2) four\nfive")).toEqual(["one", "two", "three", "four", "five"]);
+  });
+
+  it("falls back to lines when the parsed object has no array", () => {
+    expect(pipelineItems("a\nb", { count: 2 })).toEqual(["a", "b"]);
+  });
+});
+
+describe("runPipeline", () => {
+  const ideas: PipelineStep = { id: "ideas", modality: "text", prompt: "List ideas" };
+  const render: PipelineStep = { id: "render", modality: "image", prompt: "Render {{item}}", forEach: "ideas" };
+  const caption: PipelineStep = { id: "caption", modality: "text", prompt: "Caption {{steps.render}}" };
+
+  it("runs a forEach step once per item of the earlier step", async () => {
+    const calls = await run([ideas, render], (step) => (step.id === "ideas" ? "- lamp\n- chair" : "image"));
+
+    expect(calls.map((call) => call.jobs.length)).toEqual([1, 2]);
+    expect(calls[1].jobs.map((job) => job.item)).toEqual(["lamp", "chair"]);
+    expect(calls[1].jobs[0].variableValues).toEqual({ "steps.ideas": "- lamp\n- chair", item: "lamp" });
+  });
+
+  it("follows each branch separately, linking outputs to the previous step's output on their branch", async () => {
+    const calls = await run([ideas, render, caption], (step, job) =>
+      step.id === "ideas" ? "lamp\nchair" : `${step.id} of ${job.item ?? job.parent?.text}`
+    );
+
+    const captionJobs = calls[2].jobs;
+    expect(captionJobs.map((job) => job.parent?.id)).toEqual(["render-0", "render-1"]);
+    expect(captionJobs.map((job) => job.variableValues["steps.render"])).toEqual(["render of lamp", "render of chair"]);
+    expect(Object.keys(captionJobs[0].outputs)).toEqual(["ideas", "render"]);
+    expect(captionJobs[0].item).toBeUndefined();
+  });
+
+  it("ends a branch at a failed output", async () => {
+    const calls = await run([ideas, render, caption], (step, _job, index) => {
+      if (step.id === "ideas") return "lamp\nchair";
+      return step.id === "render" && index === 0 ? undefined : "done";
+    });
+
+    expect(calls[2].jobs.map((job) => job.parent?.id)).toEqual(["render-1"]);
+  });
+
+  it("stops when no branch is left", async () => {
+    const calls = await run([ideas, render, caption], () => undefined);
+
+    expect(calls.map((call) => call.stepId)).toEqual(["ideas"]);
+  });
+
+  it("uses the items of a parsed structured output", async () => {
+    const calls: StepJob<TestOutput>[][] = [];
+    await runPipeline<TestOutput>([ideas, render], async (step, jobs) => {
+      calls.push(jobs);
+      return jobs.map(() =>
+        step.id === "ideas" ? { id: "ideas", text: '{"ideas":["x","y","z"]}', structured: { value: { ideas: ["x", "y", "z"] } } } : undefined
+      );
+    });
+
+    expect(calls[1].map((job) => job.item)).toEqual(["x", "y", "z"]);
+  });
+});
@@ -0,0 +1,82 @@
+import type { PipelineStep } from "./types";
+
+/** The pipeline fills in these variables itself, so they get no field in the variables form */
+export const ITEM_VARIABLE = "item";
+const STEP_VARIABLE_PREFIX = "steps.";
+
+/** What later steps can use of a step's result */
+export interface StepOutput {
+  text: string;
+  structured?: { value?: unknown };
+}
+
+/** One generation of a step: once per branch, or once per item for forEach steps */
+export interface StepJob<TOutput extends StepOutput> {
+  item?: string;
+  /** The output of the previous step on this branch */
+  parent?: TOutput;
+  /** Outputs of the earlier steps on this branch, by step id */
+  outputs: Record<string, TOutput>;
+  /** {{steps.<id>}} and {{item}} values for the prompt */
+  variableValues: Record<string, string>;
+}
+
+/**
+ * @param {string} name
+ * @returns {boolean} Whether the variable is filled in by the pipeline.
+ */
+export function isPipelineVariable(name: string): boolean {
+  return name === ITEM_VARIABLE || name.startsWith(STEP_VARIABLE_PREFIX);
+}
+
+/**
+ * Splits a step's output into the items a forEach step runs over: the elements of a JSON array (or of the first array
+ * in a JSON object), or else the non-empty lines of the text without list markers.
+ * @param {string} text
+ * @param {unknown} [value] The parsed output of a step with a response schema
+ * @returns {string[]} Non-string elements as JSON.
+ */
+export function pipelineItems(text: string, value?: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === "object" && value !== null ? Object.values(value).find(Array.isArray) : undefined;
+  if (list) return list.map((item) => (typeof item === "string" ? item : JSON.stringify(item)));
+
+  return text
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Runs the steps in order. A step runs once for each output of the step before it that succeeded, so a forEach step
+ * fans out into branches that later steps follow separately.
+ * @param {PipelineStep[]} steps
+ * @param {(step: PipelineStep, jobs: StepJob<TOutput>[]) => Promise<(TOutput | undefined)[]>} runStep Runs all jobs of a step,
+ * returning their outputs in order, with undefined for the ones that failed; their branches end there.
+ */
+export async function runPipeline<TOutput extends StepOutput>(
+  steps: PipelineStep[],
+  runStep: (step: PipelineStep, jobs: StepJob<TOutput>[]) => Promise<(TOutput | undefined)[]>
+): Promise<void> {
+  let branches: { last?: TOutput; outputs: Record<string, TOutput> }[] = [{ outputs: {} }];
+
+  for (const step of steps) {
+    const jobs = branches.flatMap((branch) => {
+      const source = step.forEach ? branch.outputs[step.forEach] : undefined;
+      const items = source ? pipelineItems(source.text, source.structured?.value) : [undefined];
+      const stepValues = Object.fromEntries(Object.entries(branch.outputs).map(([id, output]) => [STEP_VARIABLE_PREFIX + id, output.text]));
+      return items.map((item) => ({
+        item,
+        parent: branch.last,
+        outputs: branch.outputs,
+        variableValues: item === undefined ? stepValues : { ...stepValues, [ITEM_VARIABLE]: item },
+      }));
+    });
+    if (jobs.length === 0) return;
+
+    const results = await runStep(step, jobs);
+    branches = jobs.flatMap((job, index) => {
+      const output = results[index];
+      return output ? [{ last: output, outputs: { ...job.outputs, [step.id]: output } }] : [];
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GenerationChunk, GenerationProvider, GenerationRequest } from "./types";
+
+export class GeminiProvider implements GenerationProvider {
+  static DEFAULT_MODELS = {
+    image: "gemini-2.5-flash-image-preview",
+    text: "gemini-2.5-flash",
+  };
+
+  readonly id = "gemini";
+  readonly defaultModels = GeminiProvider.DEFAULT_MODELS;
+
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  buildPayload(request: GenerationRequest) {
+    const { aspectRatio, ...sampling } = request.config ?? {};
+    const config: Record<string, unknown> = {
+      responseModalities: [request.modality === "image" ? "IMAGE" : "TEXT"],
+      ...sampling,
+    };
+
+    if (request.modality === "image" && aspectRatio) {
+      config.imageConfig = { aspectRatio };
+    }
+
+    if (request.modality === "text" && request.responseSchema) {
+      config.responseMimeType = "application/json";
+      config.responseJsonSchema = request.responseSchema;
+    }
+
+    // Set system instruction in config if present
+    if (request.systemInstruction) {
+      config.systemInstruction = request.systemInstruction;
+    }
+
+    return {
+      model: request.model,
+      config,
+      contents: request.contents,
+    };
+  }
+
+  async *generateStream(request: GenerationRequest): AsyncIterable<GenerationChunk> {
+    const payload = this.buildPayload(request);
+    const response = await this.ai.models.generateContentStream({
+      ...payload,
+      config: { ...payload.config, abortSignal: request.signal },
+    });
+
+    for await (const chunk of response) {
+      const candidate = chunk.candidates?.[0];
+      const parts = candidate?.content?.parts || [];
+      for (const part of parts) {
+        if (part.inlineData?.data) {
+          yield { image: { data: part.inlineData.data, mimeType: part.inlineData.mimeType || "image/png" } };
+        } else if (part.text && !part.thought) {
+          yield { text: part.text };
+        }
+      }
+
+      const usage = chunk.usageMetadata;
+      if (usage?.totalTokenCount !== undefined) {
+        yield { usage: { promptTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount, totalTokens: usage.totalTokenCount } };
+      }
+
+      const blockReason = chunk.promptFeedback?.blockReason;
+      if (candidate?.finishReason || blockReason) {
+        const ratings = candidate?.safetyRatings ?? chunk.promptFeedback?.safetyRatings ?? [];
+        yield {
+          finishReason: candidate?.finishReason,
+          blockReason,
+          safetyRatings: ratings.map((rating) => ({
+            category: rating.category ?? "UNKNOWN",
+            probability: rating.probability,
+            blocked: rating.blocked,
+          })),
+        };
+      }
+    }
+  }
+
+  async countTokens(request: GenerationRequest): Promise<number> {
+    // The Gemini API's count endpoint rejects a system instruction, so it is counted as a leading user turn instead
+    const contents = request.systemInstruction
+      ? [{ role: "user", parts: [{ text: request.systemInstruction }] }, ...request.contents]
+      : request.contents;
+    const result = await this.ai.models.countTokens({ model: request.model, contents, config: { abortSignal: request.signal } });
+    return result.totalTokens ?? 0;
+  }
+}
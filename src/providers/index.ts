@@ -0,0 +1,40 @@
+import { GeminiProvider } from "./gemini";
+import { MockProvider } from "./mock";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+import type { GenerationProvider, Modality, ProviderSettings } from "./types";
+
+export type {
+  GenerationChunk,
+  GenerationConfig,
+  GenerationPart,
+  GenerationProvider,
+  GenerationRequest,
+  GenerationTurn,
+  Modality,
+  ProviderSettings,
+  SafetyRating,
+  TokenUsage,
+} from "./types";
+
+export const PROVIDERS: { id: string; label: string; requiresApiKey: boolean; defaultModels: Record<Modality, string> }[] = [
+  { id: "gemini", label: "Google Gemini", requiresApiKey: true, defaultModels: GeminiProvider.DEFAULT_MODELS },
+  { id: "openai-compatible", label: "OpenAI-compatible", requiresApiKey: false, defaultModels: OpenAICompatibleProvider.DEFAULT_MODELS },
+  { id: "mock", label: "Mock (offline)", requiresApiKey: false, defaultModels: MockProvider.DEFAULT_MODELS },
+];
+
+/**
+ * Creates the provider selected in the settings.
+ * @param {ProviderSettings} settings
+ * @returns {GenerationProvider}
+ */
+export function createProvider(settings: ProviderSettings): GenerationProvider {
+  switch (settings.providerId) {
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(settings.apiKey, settings.baseUrl);
+    case "mock":
+      return new MockProvider();
+    case "gemini":
+    default:
+      return new GeminiProvider(settings.apiKey);
+  }
+}
@@ -0,0 +1,175 @@
+import { HttpStatusError } from "../errors";
+import type { JsonSchema } from "../json-schema";
+import { estimateTextTokens, estimateTokens } from "../tokens";
+import type { GenerationChunk, GenerationProvider, GenerationRequest, TokenUsage } from "./types";
+
+/**
+ * Offline provider for developing the UI without an API key.
+ * Responses are derived from a hash of the request, so the same inputs always produce the same output.
+ * A prompt containing "#mock-error=<kind>" (invalid-key, quota, safety, network or empty) simulates that failure.
+ */
+export class MockProvider implements GenerationProvider {
+  static DEFAULT_MODELS = {
+    image: "mock-image",
+    text: "mock-text",
+  };
+
+  readonly id = "mock";
+  readonly defaultModels = MockProvider.DEFAULT_MODELS;
+
+  static CHUNK_DELAY_MS = 30;
+  /** What Gemini bills for one generated image */
+  static IMAGE_OUTPUT_TOKENS = 1290;
+
+  buildPayload(request: GenerationRequest) {
+    const { signal: _signal, ...payload } = request;
+    return payload;
+  }
+
+  async *generateStream(request: GenerationRequest): AsyncIterable<GenerationChunk> {
+    const hash = MockProvider.hashRequest(this.buildPayload(request));
+    const lastText =
+      request.contents
+        .flatMap((turn) => turn.parts)
+        .map((part) => part.text)
+        .filter(Boolean)
+        .pop() ?? "";
+    const imageCount = request.contents.flatMap((turn) => turn.parts).filter((part) => part.inlineData).length;
+
+    const simulatedError = lastText.match(/#mock-error=([\w-]+)/)?.[1];
+    if (simulatedError) {
+      yield* MockProvider.simulateError(simulatedError, request.signal);
+      return;
+    }
+
+    if (request.modality === "image") {
+      await MockProvider.delay(request.signal);
+      yield { image: { data: btoa(MockProvider.createSvg(hash)), mimeType: "image/svg+xml" } };
+      yield { text: `Mock image ${hash} for ${request.contents.length} turn(s) and ${imageCount} input image(s).` };
+      yield { usage: MockProvider.createUsage(request, MockProvider.IMAGE_OUTPUT_TOKENS) };
+      return;
+    }
+
+    const response = request.responseSchema
+      ? JSON.stringify(MockProvider.sampleFromSchema(request.responseSchema, hash), null, 2)
+      : [
+          `Mock response ${hash} from ${request.model}.`,
+          `Received ${request.contents.length} turn(s) with ${imageCount} image(s).`,
+          `Last prompt: "${lastText.slice(0, 200)}"`,
+        ].join("\n");
+
+    // Stream word by word to exercise incremental rendering
+    for (const word of response.split(/(?<=\s)/)) {
+      await MockProvider.delay(request.signal);
+      yield { text: word };
+    }
+    yield { usage: MockProvider.createUsage(request, estimateTextTokens(response.length)) };
+  }
+
+  async countTokens(request: GenerationRequest): Promise<number> {
+    await MockProvider.delay(request.signal);
+    return estimateTokens(request).tokens;
+  }
+
+  static createUsage(request: GenerationRequest, outputTokens: number): TokenUsage {
+    const promptTokens = estimateTokens(request).tokens;
+    return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+  }
+
+  /**
+   * Builds a value that matches the schema, filling strings with the request hash.
+   * @param {JsonSchema} schema
+   * @param {string} hash
+   * @returns {unknown}
+   */
+  static sampleFromSchema(schema: JsonSchema, hash: string): unknown {
+    if (Array.isArray(schema.enum)) return schema.enum[0];
+    if (Array.isArray(schema.anyOf)) return MockProvider.sampleFromSchema(schema.anyOf[0] as JsonSchema, hash);
+
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+    switch (type) {
+      case "object": {
+        const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+        return Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, MockProvider.sampleFromSchema(property, hash)]));
+      }
+      case "array": {
+        const count = Math.max(typeof schema.minItems === "number" ? schema.minItems : 0, 2);
+        return Array.from({ length: count }, (_, index) => MockProvider.sampleFromSchema((schema.items ?? {}) as JsonSchema, `${hash}-${index + 1}`));
+      }
+      case "number":
+      case "integer":
+        return parseInt(hash.slice(0, 2), 16);
+      case "boolean":
+        return parseInt(hash.slice(0, 1), 16) % 2 === 0;
+      case "null":
+        return null;
+      default:
+        return `mock ${hash}`;
+    }
+  }
+
+  static async *simulateError(kind: string, signal?: AbortSignal): AsyncIterable<GenerationChunk> {
+    await MockProvider.delay(signal);
+    switch (kind) {
+      case "invalid-key":
+        throw new HttpStatusError("API key not valid. Please pass a valid API key.", 400);
+      case "quota":
+        throw new HttpStatusError("Resource has been exhausted (e.g. check quota).", 429);
+      case "network":
+        throw new TypeError("Failed to fetch");
+      case "safety":
+        yield {
+          finishReason: "SAFETY",
+          safetyRatings: [
+            { category: "HARM_CATEGORY_DANGEROUS_CONTENT", probability: "HIGH", blocked: true },
+            { category: "HARM_CATEGORY_HARASSMENT", probability: "NEGLIGIBLE" },
+          ],
+        };
+        return;
+      case "empty":
+      default:
+        yield { finishReason: "STOP" };
+    }
+  }
+
+  /**
+   * FNV-1a hash of the request, as 8 hex digits.
+   * @param {GenerationRequest} request
+   * @returns {string}
+   */
+  static hashRequest(request: Omit<GenerationRequest, "signal">): string {
+    const input = JSON.stringify(request);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+  }
+
+  static createSvg(hash: string): string {
+    const hue = parseInt(hash.slice(0, 4), 16) % 360;
+    const accentHue = (hue + 180) % 360;
+    const radius = 80 + (parseInt(hash.slice(4, 6), 16) % 160);
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="800" viewBox="0 0 800 800">
+  <rect width="800" height="800" fill="hsl(${hue}, 60%, 80%)"/>
+  <circle cx="400" cy="400" r="${radius}" fill="hsl(${accentHue}, 60%, 50%)"/>
+  <text x="400" y="760" font-family="monospace" font-size="32" text-anchor="middle">mock ${hash}</text>
+</svg>`;
+  }
+
+  static delay(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      signal?.throwIfAborted();
+      const onAbort = () => {
+        clearTimeout(timeout);
+        reject(signal!.reason);
+      };
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, MockProvider.CHUNK_DELAY_MS);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
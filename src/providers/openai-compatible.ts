@@ -0,0 +1,205 @@
+import { HttpStatusError } from "../errors";
+import type { GenerationChunk, GenerationPart, GenerationProvider, GenerationRequest } from "./types";
+
+/**
+ * Talks to any server implementing the OpenAI chat completions and image generation endpoints.
+ * Text streams over server-sent events; images come back in one piece from /images/generations,
+ * or from /images/edits when the request has input images.
+ */
+export class OpenAICompatibleProvider implements GenerationProvider {
+  static DEFAULT_MODELS = {
+    image: "gpt-image-1",
+    text: "gpt-4o-mini",
+  };
+
+  /** The image endpoint takes fixed sizes, so aspect ratios map to the closest one */
+  static IMAGE_SIZES: Record<string, string> = {
+    "1:1": "1024x1024",
+    "3:2": "1536x1024",
+    "4:3": "1536x1024",
+    "16:9": "1536x1024",
+    "21:9": "1536x1024",
+    "2:3": "1024x1536",
+    "3:4": "1024x1536",
+    "9:16": "1024x1536",
+  };
+
+  readonly id = "openai-compatible";
+  readonly defaultModels = OpenAICompatibleProvider.DEFAULT_MODELS;
+
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, baseUrl: string) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  buildPayload(request: GenerationRequest) {
+    const config = request.config ?? {};
+
+    if (request.modality === "image") {
+      // The image endpoints take a single prompt, so text parts are flattened
+      const parts = request.contents.flatMap((turn) => turn.parts);
+      const prompt = [request.systemInstruction, ...parts.map((part) => part.text)].filter(Boolean).join("\n");
+      const size = config.aspectRatio ? OpenAICompatibleProvider.IMAGE_SIZES[config.aspectRatio] : undefined;
+      // gpt-image models always return base64 and reject response_format
+      const responseFormat = request.model.startsWith("gpt-image") ? undefined : "b64_json";
+      const body = { model: request.model, prompt, n: 1, response_format: responseFormat, size };
+
+      const images = parts.flatMap((part) => (part.inlineData ? [part.inlineData] : []));
+      if (images.length > 0) {
+        return { url: `${this.baseUrl}/images/edits`, body: { ...body, images } };
+      }
+      return { url: `${this.baseUrl}/images/generations`, body };
+    }
+
+    const messages: { role: string; content: unknown }[] = [];
+    if (request.systemInstruction) {
+      messages.push({ role: "system", content: request.systemInstruction });
+    }
+    for (const turn of request.contents) {
+      messages.push({
+        role: turn.role === "model" ? "assistant" : "user",
+        content: turn.parts.map(OpenAICompatibleProvider.toContentPart),
+      });
+    }
+
+    return {
+      url: `${this.baseUrl}/chat/completions`,
+      // top_k has no equivalent in this API
+      body: {
+        model: request.model,
+        messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        temperature: config.temperature,
+        top_p: config.topP,
+        max_tokens: config.maxOutputTokens,
+        seed: config.seed,
+        stop: config.stopSequences,
+        response_format: request.responseSchema
+          ? { type: "json_schema", json_schema: { name: "response", schema: request.responseSchema } }
+          : undefined,
+      },
+    };
+  }
+
+  async *generateStream(request: GenerationRequest): AsyncIterable<GenerationChunk> {
+    const { url, body } = this.buildPayload(request);
+    const authorization: Record<string, string> = this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+    // The edits endpoint takes the input images as multipart form data
+    const response =
+      "images" in body
+        ? await fetch(url, { method: "POST", headers: authorization, body: OpenAICompatibleProvider.toFormData(body), signal: request.signal })
+        : await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...authorization },
+            body: JSON.stringify(body),
+            signal: request.signal,
+          });
+
+    if (!response.ok) {
+      throw new HttpStatusError(await OpenAICompatibleProvider.readErrorMessage(response), response.status);
+    }
+
+    if (request.modality === "image") {
+      const result = await response.json();
+      for (const image of result.data ?? []) {
+        if (image.b64_json) {
+          const mimeType = OpenAICompatibleProvider.imageMimeType(result.output_format, image.b64_json);
+          yield { image: { data: image.b64_json, mimeType } };
+        }
+        if (image.revised_prompt) yield { text: image.revised_prompt };
+      }
+      if (result.usage) {
+        yield {
+          usage: { promptTokens: result.usage.input_tokens, outputTokens: result.usage.output_tokens, totalTokens: result.usage.total_tokens },
+        };
+      }
+      return;
+    }
+
+    for await (const data of OpenAICompatibleProvider.readServerSentEvents(response.body!)) {
+      if (data === "[DONE]") return;
+      const event = JSON.parse(data);
+      const choice = event.choices?.[0];
+      if (choice?.delta?.content) yield { text: choice.delta.content };
+      if (choice?.finish_reason) yield { finishReason: choice.finish_reason };
+      // Sent in a last event without choices, as requested by stream_options
+      if (event.usage) {
+        yield {
+          usage: { promptTokens: event.usage.prompt_tokens, outputTokens: event.usage.completion_tokens, totalTokens: event.usage.total_tokens },
+        };
+      }
+    }
+  }
+
+  static toContentPart(part: GenerationPart) {
+    if (part.inlineData) {
+      return { type: "image_url", image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+    }
+    return { type: "text", text: part.text ?? "" };
+  }
+
+  /**
+   * The type of a returned image, from the response's output_format (gpt-image models) or else from the image's first bytes,
+   * as other servers return PNG without saying so.
+   * @param {unknown} outputFormat
+   * @param {string} base64
+   * @returns {string}
+   */
+  static imageMimeType(outputFormat: unknown, base64: string): string {
+    if (outputFormat === "jpeg" || outputFormat === "jpg" || base64.startsWith("/9j/")) return "image/jpeg";
+    if (outputFormat === "webp" || base64.startsWith("UklGR")) return "image/webp";
+    return "image/png";
+  }
+
+  /**
+   * Builds the multipart body of an /images/edits request. Several images are sent as an image[] array.
+   * @param {object} body
+   * @returns {FormData}
+   */
+  static toFormData({ images, ...fields }: { images: { data: string; mimeType: string }[]; [field: string]: unknown }): FormData {
+    const form = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+      if (value !== undefined) form.append(name, String(value));
+    }
+    images.forEach((image, index) => {
+      const bytes = Uint8Array.from(atob(image.data), (char) => char.charCodeAt(0));
+      const extension = image.mimeType.split("/")[1] ?? "png";
+      form.append(images.length > 1 ? "image[]" : "image", new Blob([bytes], { type: image.mimeType }), `image-${index + 1}.${extension}`);
+    });
+    return form;
+  }
+
+  /**
+   * Yields the data field of each server-sent event in a response body.
+   * @param {ReadableStream<Uint8Array>} body
+   */
+  static async *readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.startsWith("data:")) yield line.slice(5).trim();
+      }
+    }
+  }
+
+  static async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const body = await response.json();
+      return body.error?.message ?? `${response.status} ${response.statusText}`;
+    } catch {
+      return `${response.status} ${response.statusText}`;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import type { JsonSchema } from "../json-schema";
+import type { MessageRole } from "../types";
+
+export type Modality = "text" | "image";
+
+/** A piece of a turn: text or base64 inline data, mirroring the Gemini content format. */
+export interface GenerationPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+}
+
+export interface GenerationTurn {
+  role: MessageRole;
+  parts: GenerationPart[];
+}
+
+export interface GenerationRequest {
+  model: string;
+  modality: Modality;
+  contents: GenerationTurn[];
+  systemInstruction?: string;
+  config?: GenerationConfig;
+  /** Only used for text generation: asks for JSON matching this schema instead of free text */
+  responseSchema?: JsonSchema;
+  /** Aborts the request and the stream; not part of the payload */
+  signal?: AbortSignal;
+}
+
+/** Provider-neutral sampling and output settings. Unset fields use the model's defaults. */
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  seed?: number;
+  stopSequences?: string[];
+  /** Only used for image generation, e.g. "16:9" */
+  aspectRatio?: string;
+}
+
+/** One streamed piece of a response. The last chunk usually carries the finish reason. */
+export interface GenerationChunk {
+  text?: string;
+  image?: { data: string; mimeType: string };
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  /** Set when the prompt itself was rejected, before any response was generated */
+  blockReason?: string;
+  /** Token counts so far; a later chunk's usage replaces an earlier one */
+  usage?: TokenUsage;
+}
+
+/** Token counts of one generation. Fields the vendor does not report are absent. */
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens: number;
+  /** Set when the vendor reported nothing and the counts were estimated locally */
+  estimated?: boolean;
+}
+
+export interface SafetyRating {
+  category: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+export interface GenerationProvider {
+  readonly id: string;
+  readonly defaultModels: Record<Modality, string>;
+
+  /**
+   * Builds the exact payload sent to the vendor's API, for provenance and debugging.
+   * @param {GenerationRequest} request
+   * @returns {unknown}
+   */
+  buildPayload(request: GenerationRequest): unknown;
+
+  /**
+   * Sends the request and yields text and image chunks as they arrive.
+   * @param {GenerationRequest} request
+   * @returns {AsyncIterable<GenerationChunk>}
+   */
+  generateStream(request: GenerationRequest): AsyncIterable<GenerationChunk>;
+
+  /**
+   * Counts the prompt tokens of the request with the vendor's count endpoint. Providers without one leave this out,
+   * and callers fall back to estimateTokens.
+   * @param {GenerationRequest} request
+   * @returns {Promise<number>}
+   */
+  countTokens?(request: GenerationRequest): Promise<number>;
+}
+
+export interface ProviderSettings {
+  providerId: string;
+  apiKey: string;
+  /** Only used by the OpenAI-compatible provider */
+  baseUrl: string;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { GenerationPart } from "./providers";
+import { buildContents, buildRequest, imagePrompt, type PromptInputs, type PromptMessage } from "./request-builder";
+
+/** Images are plain names in these tests, encoded as a single marker part */
+const encodeImage = async (image: string): Promise<GenerationPart[]> => [{ inlineData: { data: image, mimeType: "image/png" } }];
+
+const message = (role: PromptMessage<string>["role"], text: string, images: string[] = []): PromptMessage<string> => ({ role, text, images });
+
+const inputs = (overrides: Partial<PromptInputs<string>> = {}): PromptInputs<string> => ({
+  systemMessage: "",
+  messages: [message("user", "Hello")],
+  variableValues: {},
+  ...overrides,
+});
+
+describe("imagePrompt", () => {
+  it("puts the image reference after the text on its own line", () => {
+    expect(imagePrompt("A chair", 1)).toBe("A chair\nSee image:");
+  });
+
+  it("uses the plural for several images", () => {
+    expect(imagePrompt("A chair", 2)).toBe("A chair\nSee images:");
+  });
+
+  it("stands alone without text", () => {
+    expect(imagePrompt("", 1)).toBe("See image:");
+  });
+});
+
+describe("buildContents", () => {
+  it("merges consecutive items with the same role into one turn", async () => {
+    const contents = await buildContents([message("user", "One"), message("user", "Two"), message("model", "Three")], encodeImage);
+
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "One" }, { text: "Two" }] },
+      { role: "model", parts: [{ text: "Three" }] },
+    ]);
+  });
+
+  it("skips items without text or images", async () => {
+    const contents = await buildContents([message("user", "  "), message("model", "Reply"), message("user", "")], encodeImage);
+
+    expect(contents).toEqual([{ role: "model", parts: [{ text: "Reply" }] }]);
+  });
+
+  it("merges items separated only by a skipped item of another role", async () => {
+    const contents = await buildContents([message("user", "One"), message("model", ""), message("user", "Two")], encodeImage);
+
+    expect(contents).toEqual([{ role: "user", parts: [{ text: "One" }, { text: "Two" }] }]);
+  });
+
+  it("introduces images with their reference text, followed by the encoded images in order", async () => {
+    const contents = await buildContents([message("user", " Make it blue ", ["a", "b"])], encodeImage);
+
+    expect(contents).toEqual([
+      {
+        role: "user",
+        parts: [
+          { text: "Make it blue\nSee images:" },
+          { inlineData: { data: "a", mimeType: "image/png" } },
+          { inlineData: { data: "b", mimeType: "image/png" } },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps an item that has images but no text", async () => {
+    const contents = await buildContents([message("user", "", ["a"])], encodeImage);
+
+    expect(contents[0].parts[0]).toEqual({ text: "See image:" });
+  });
+});
+
+describe("buildRequest", () => {
+  const options = { model: "model", config: { temperature: 0.5 } };
+
+  it("sends the system message as the system instruction of text requests, with the response schema", async () => {
+    const responseSchema = { type: "object" };
+    const request = await buildRequest(inputs({ systemMessage: " Be brief. ", responseSchema }), { ...options, modality: "text" }, encodeImage);
+
+    expect(request).toEqual({
+      model: "model",
+      modality: "text",
+      config: { temperature: 0.5 },
+      contents: [{ role: "user", parts: [{ text: "Hello" }] }],
+      systemInstruction: "Be brief.",
+      responseSchema,
+    });
+  });
+
+  it("leaves the system instruction out of text requests when the system message is empty", async () => {
+    const request = await buildRequest(inputs({ systemMessage: "  " }), { ...options, modality: "text" }, encodeImage);
+
+    expect(request.systemInstruction).toBeUndefined();
+  });
+
+  it("puts the system message in front of the first user turn of image requests", async () => {
+    const request = await buildRequest(inputs({ systemMessage: "Photorealistic." }), { ...options, modality: "image" }, encodeImage);
+
+    expect(request.systemInstruction).toBeUndefined();
+    expect(request.contents).toEqual([{ role: "user", parts: [{ text: "Photorealistic." }, { text: "Hello" }] }]);
+  });
+
+  it("adds a user turn for the system message of image requests that start with a model turn", async () => {
+    const request = await buildRequest(
+      inputs({ systemMessage: "Photorealistic.", messages: [message("model", "Ready")] }),
+      { ...options, modality: "image" },
+      encodeImage
+    );
+
+    expect(request.contents).toEqual([
+      { role: "user", parts: [{ text: "Photorealistic." }] },
+      { role: "model", parts: [{ text: "Ready" }] },
+    ]);
+  });
+
+  it("does not send the response schema with image requests", async () => {
+    const request = await buildRequest(inputs({ responseSchema: { type: "object" } }), { ...options, modality: "image" }, encodeImage);
+
+    expect(request.responseSchema).toBeUndefined();
+  });
+
+  it("fills in variables in the system message and message items", async () => {
+    const request = await buildRequest(
+      inputs({
+        systemMessage: "You design {{object}}s.",
+        messages: [message("user", "A {{color}} {{object}}")],
+        variableValues: { object: "lamp", color: "red" },
+      }),
+      { ...options, modality: "text" },
+      encodeImage
+    );
+
+    expect(request.systemInstruction).toBe("You design lamps.");
+    expect(request.contents).toEqual([{ role: "user", parts: [{ text: "A red lamp" }] }]);
+  });
+});
@@ -0,0 +1,111 @@
+import type { JsonSchema } from "./json-schema";
+import type { GenerationConfig, GenerationPart, GenerationRequest, GenerationTurn, Modality } from "./providers";
+import { substituteVariables } from "./template-variables";
+import type { MessageRole } from "./types";
+
+/** A message item as the builder sees it. Images are opaque here and handed to the encoder. */
+export interface PromptMessage<TImage> {
+  role: MessageRole;
+  text: string;
+  images: TImage[];
+}
+
+export interface PromptInputs<TImage> {
+  systemMessage: string;
+  messages: PromptMessage<TImage>[];
+  variableValues: Record<string, string>;
+  responseSchema?: JsonSchema;
+}
+
+/**
+ * Turns one image into request parts. The browser app draws annotations with canvas and the CLI reads files from disk,
+ * so each supplies its own; the rest of this module has no DOM or Node dependencies.
+ */
+export type ImageEncoder<TImage> = (image: TImage) => Promise<GenerationPart[]>;
+
+export interface RequestOptions {
+  modality: Modality;
+  model: string;
+  config: GenerationConfig;
+}
+
+/**
+ * Text that introduces a message's images, after the message text on its own line.
+ * @param {string} text The message text, trimmed
+ * @param {number} imageCount
+ * @returns {string}
+ */
+export function imagePrompt(text: string, imageCount: number): string {
+  const reference = imageCount > 1 ? "See images:" : "See image:";
+  return text ? `${text}\n${reference}` : reference;
+}
+
+/**
+ * Builds alternating turns from message items, merging consecutive items with the same role and skipping empty ones.
+ * An item with images contributes its text followed by "See image:", then the images.
+ * @param {PromptMessage<TImage>[]} messages With variables already filled in
+ * @param {ImageEncoder<TImage>} encodeImage
+ * @returns {Promise<GenerationTurn[]>}
+ */
+export async function buildContents<TImage>(messages: PromptMessage<TImage>[], encodeImage: ImageEncoder<TImage>): Promise<GenerationTurn[]> {
+  const contents: GenerationTurn[] = [];
+
+  for (const message of messages) {
+    const text = message.text.trim();
+    if (message.images.length === 0 && !text) continue;
+
+    // Continue the previous turn if it has the same role, otherwise start a new one
+    let parts: GenerationPart[];
+    const lastTurn = contents[contents.length - 1];
+    if (lastTurn?.role === message.role) {
+      parts = lastTurn.parts;
+    } else {
+      parts = [];
+      contents.push({ role: message.role, parts });
+    }
+
+    if (message.images.length > 0) {
+      parts.push({ text: imagePrompt(text, message.images.length) });
+      for (const image of message.images) {
+        parts.push(...(await encodeImage(image)));
+      }
+    } else {
+      parts.push({ text });
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Builds the request for a generation, filling in {{variables}} first.
+ * Image models ignore the system instruction, so for image requests the system message is put in front of the first user
+ * turn instead. Text requests send it as the system instruction, along with the response schema.
+ * @param {PromptInputs<TImage>} inputs
+ * @param {RequestOptions} options
+ * @param {ImageEncoder<TImage>} encodeImage
+ * @returns {Promise<GenerationRequest>}
+ */
+export async function buildRequest<TImage>(
+  inputs: PromptInputs<TImage>,
+  options: RequestOptions,
+  encodeImage: ImageEncoder<TImage>
+): Promise<GenerationRequest> {
+  const systemMessage = substituteVariables(inputs.systemMessage, inputs.variableValues).trim();
+  const messages = inputs.messages.map((message) => ({ ...message, text: substituteVariables(message.text, inputs.variableValues) }));
+  const contents = await buildContents(messages, encodeImage);
+  const request: GenerationRequest = { model: options.model, modality: options.modality, contents, config: options.config };
+
+  if (options.modality === "image") {
+    if (systemMessage) {
+      if (contents[0]?.role === "user") {
+        contents[0].parts.unshift({ text: systemMessage });
+      } else {
+        contents.unshift({ role: "user", parts: [{ text: systemMessage }] });
+      }
+    }
+    return request;
+  }
+
+  return { ...request, systemInstruction: systemMessage || undefined, responseSchema: inputs.responseSchema };
+}
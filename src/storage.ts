@@ -0,0 +1,311 @@
+import { del, delMany, get, keys, set, type UseStore } from "idb-keyval";
+import type { HistoryEntry } from "./types";
+
+/** Bump together with a new entry in `migrations` whenever the stored data shape changes. */
+export const SCHEMA_VERSION = 7;
+
+/**
+ * Key of an image Blob record, generated or input. Images live outside the outputs array so saving outputs stays cheap.
+ * @param {string} imageId
+ * @returns {string}
+ */
+export function imageKey(imageId: string): string {
+  return `image:${imageId}`;
+}
+
+/** Workspace that holds the data saved before workspaces existed */
+export const DEFAULT_WORKSPACE_ID = "default";
+
+/** Keys saved separately for each workspace. The API key, provider, user templates and image records are shared. */
+export const WORKSPACE_KEYS = [
+  "generationSettings",
+  "systemMessage",
+  "responseSchema",
+  "pipeline",
+  "messages",
+  "outputs",
+  "variables",
+  "variableValues",
+  "batchSettings",
+  "history",
+  "compareVariants",
+  "comparisons",
+  "galleryLayout",
+  "primaryModality",
+  "usage",
+];
+
+/**
+ * Key of a value saved for one workspace, e.g. `workspace:default:messages`.
+ * @param {string} workspaceId
+ * @param {string} key One of WORKSPACE_KEYS
+ * @returns {string}
+ */
+export function workspaceKey(workspaceId: string, key: string): string {
+  return `workspace:${workspaceId}:${key}`;
+}
+
+/**
+ * Copies all data of a workspace to another. Output images are copied too, so deleting either workspace leaves the other intact.
+ * Input images are shared, see deleteUnusedImages.
+ * @param {UseStore} store
+ * @param {string} fromId
+ * @param {string} toId
+ */
+export async function copyWorkspace(store: UseStore, fromId: string, toId: string): Promise<void> {
+  for (const key of WORKSPACE_KEYS) {
+    // Undo history refers to the original's output images, so the copy starts without one
+    if (key === "history") continue;
+
+    let value = await get(workspaceKey(fromId, key), store);
+    if (value === undefined) continue;
+
+    if (key === "outputs") {
+      value = await Promise.all(
+        value.map(async (output: { imageId: string | null }) => {
+          const blob = output.imageId ? await getImage(store, output.imageId) : undefined;
+          return blob ? { ...output, imageId: await putImage(store, blob) } : output;
+        })
+      );
+    }
+    await set(workspaceKey(toId, key), value, store);
+  }
+}
+
+/**
+ * Deletes all data of a workspace, including its output images and those of outputs deleted but still undoable.
+ * Its input images may be shared with other workspaces and are left to deleteUnusedImages.
+ * @param {UseStore} store
+ * @param {string} workspaceId
+ */
+export async function deleteWorkspace(store: UseStore, workspaceId: string): Promise<void> {
+  const outputs: { imageId: string | null }[] = (await get(workspaceKey(workspaceId, "outputs"), store)) ?? [];
+  const history: { undo: HistoryEntry[]; redo: HistoryEntry[] } | undefined = await get(workspaceKey(workspaceId, "history"), store);
+  for (const entry of [...(history?.undo ?? []), ...(history?.redo ?? [])]) {
+    outputs.push(...(entry.deletedOutputs ?? []).map(({ output }) => output));
+  }
+
+  for (const output of outputs) {
+    if (output.imageId) await deleteImage(store, output.imageId);
+  }
+  await delMany(
+    WORKSPACE_KEYS.map((key) => workspaceKey(workspaceId, key)),
+    store
+  );
+}
+
+export async function getImage(store: UseStore, imageId: string): Promise<Blob | undefined> {
+  return get(imageKey(imageId), store);
+}
+
+export async function putImage(store: UseStore, blob: Blob): Promise<string> {
+  const imageId = crypto.randomUUID();
+  await setImage(store, imageId, blob);
+  return imageId;
+}
+
+export async function setImage(store: UseStore, imageId: string, blob: Blob): Promise<void> {
+  await set(imageKey(imageId), blob, store);
+}
+
+export async function deleteImage(store: UseStore, imageId: string): Promise<void> {
+  await del(imageKey(imageId), store);
+}
+
+/**
+ * Deletes the image records that no workspace refers to any more. Input images are shared by every message item, provenance
+ * and undo snapshot showing the same image, so unlike output images they are not deleted as they are dropped.
+ * Only call this before the app makes new references, as references not saved yet are not seen.
+ * @param {UseStore} store
+ */
+export async function deleteUnusedImages(store: UseStore): Promise<void> {
+  const used = new Set<string>();
+  const collect = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === "object" && !(value instanceof Blob)) {
+      for (const [key, item] of Object.entries(value)) {
+        if (key === "imageId" && typeof item === "string") used.add(item);
+        else collect(item);
+      }
+    }
+  };
+
+  const workspaces: { id: string }[] = (await get("workspaces", store)) ?? [{ id: DEFAULT_WORKSPACE_ID }];
+  for (const { id } of workspaces) {
+    for (const key of WORKSPACE_KEYS) collect(await get(workspaceKey(id, key), store));
+  }
+
+  const unused = (await keys(store)).filter(
+    (key) => typeof key === "string" && key.startsWith(imageKey("")) && !used.has(key.slice(imageKey("").length))
+  );
+  await delMany(unused, store);
+}
+
+/**
+ * Upgrades the stored data to SCHEMA_VERSION, one version at a time.
+ * Data written before versioning existed counts as version 0.
+ * @param {UseStore} store
+ */
+export async function migrate(store: UseStore): Promise<void> {
+  let version: number = (await get("schemaVersion", store)) ?? 0;
+
+  while (version < SCHEMA_VERSION) {
+    await migrations[version](store);
+    version++;
+    await set("schemaVersion", version, store);
+  }
+}
+
+/** migrations[n] upgrades version n to version n + 1. */
+const migrations: ((store: UseStore) => Promise<void>)[] = [
+  // 0 -> 1: messages gained a user/model role
+  async (store) => {
+    const messages = await get("messages", store);
+    if (!Array.isArray(messages)) return;
+    await set(
+      "messages",
+      messages.map((msg) => ({ ...msg, role: msg.role ?? "user" })),
+      store
+    );
+  },
+
+  // 1 -> 2: generated images moved from base64 data URLs in `outputs` into separate Blob records
+  async (store) => {
+    const outputs = await get("outputs", store);
+    if (!Array.isArray(outputs)) return;
+
+    const migrated = [];
+    for (const output of outputs) {
+      if (typeof output.imageUrl === "string" && output.imageUrl.startsWith("data:")) {
+        const blob = await (await fetch(output.imageUrl)).blob();
+        const imageId = await putImage(store, blob);
+        migrated.push({ ...output, imageUrl: null, imageId });
+      } else {
+        migrated.push({ ...output, imageId: null });
+      }
+    }
+    await set("outputs", migrated, store);
+  },
+
+  // 2 -> 3: output errors changed from a message string to a classified error object
+  async (store) => {
+    const outputs = await get("outputs", store);
+    if (!Array.isArray(outputs)) return;
+    await set(
+      "outputs",
+      outputs.map((output) => (typeof output.error === "string" ? { ...output, error: { kind: "unknown", message: output.error } } : output)),
+      store
+    );
+  },
+
+  // 3 -> 4: everything but the API key, provider and user templates moved into a default workspace
+  async (store) => {
+    for (const key of WORKSPACE_KEYS) {
+      const value = await get(key, store);
+      if (value === undefined) continue;
+      await set(workspaceKey(DEFAULT_WORKSPACE_ID, key), value, store);
+      await del(key, store);
+    }
+  },
+
+  // 4 -> 5: message items hold a list of images instead of a single image, also in output provenance and undo history
+  async (store) => {
+    type StoredMessage = { image?: unknown };
+    type StoredOutput = { provenance?: { messages: StoredMessage[] } };
+    type StoredEntry = { state: { messages: StoredMessage[] }; deletedOutputs?: { index: number; output: StoredOutput }[] };
+    const toImages = (messages: StoredMessage[]) => messages.map(({ image, ...msg }) => ({ ...msg, images: image ? [image] : [] }));
+    const migrateOutput = (output: StoredOutput) =>
+      output.provenance ? { ...output, provenance: { ...output.provenance, messages: toImages(output.provenance.messages) } } : output;
+
+    const workspaces: { id: string }[] = (await get("workspaces", store)) ?? [{ id: DEFAULT_WORKSPACE_ID }];
+    for (const { id } of workspaces) {
+      const messages = await get(workspaceKey(id, "messages"), store);
+      if (Array.isArray(messages)) await set(workspaceKey(id, "messages"), toImages(messages), store);
+
+      const outputs = await get(workspaceKey(id, "outputs"), store);
+      if (Array.isArray(outputs)) await set(workspaceKey(id, "outputs"), outputs.map(migrateOutput), store);
+
+      const history: { undo: StoredEntry[]; redo: StoredEntry[] } | undefined = await get(workspaceKey(id, "history"), store);
+      if (history) {
+        const migrateEntry = (entry: StoredEntry) => ({
+          ...entry,
+          state: { ...entry.state, messages: toImages(entry.state.messages) },
+          deletedOutputs: entry.deletedOutputs?.map(({ index, output }) => ({ index, output: migrateOutput(output) })),
+        });
+        await set(workspaceKey(id, "history"), { undo: history.undo.map(migrateEntry), redo: history.redo.map(migrateEntry) }, store);
+      }
+    }
+  },
+
+  // 5 -> 6: input images in output provenance moved from Blobs into image records, also for outputs in undo history
+  async (store) => {
+    type StoredOutput = { provenance?: { messages: { images: { blob: Blob; mimeType: string; annotation?: unknown }[] }[] } };
+    type StoredEntry = { deletedOutputs?: { index: number; output: StoredOutput }[] };
+    const migrateOutput = async (output: StoredOutput) => {
+      if (!output.provenance) return output;
+      const messages = [];
+      for (const message of output.provenance.messages) {
+        const images = [];
+        for (const { blob, mimeType, annotation } of message.images) images.push({ imageId: await putImage(store, blob), mimeType, annotation });
+        messages.push({ ...message, images });
+      }
+      return { ...output, provenance: { ...output.provenance, messages } };
+    };
+    const migrateEntries = async (entries: StoredEntry[]) => {
+      const migrated = [];
+      for (const entry of entries) {
+        if (!entry.deletedOutputs) {
+          migrated.push(entry);
+          continue;
+        }
+        const deletedOutputs = [];
+        for (const { index, output } of entry.deletedOutputs) deletedOutputs.push({ index, output: await migrateOutput(output) });
+        migrated.push({ ...entry, deletedOutputs });
+      }
+      return migrated;
+    };
+
+    const workspaces: { id: string }[] = (await get("workspaces", store)) ?? [{ id: DEFAULT_WORKSPACE_ID }];
+    for (const { id } of workspaces) {
+      const outputs = await get(workspaceKey(id, "outputs"), store);
+      if (Array.isArray(outputs)) {
+        const migrated = [];
+        for (const output of outputs) migrated.push(await migrateOutput(output));
+        await set(workspaceKey(id, "outputs"), migrated, store);
+      }
+
+      const history: { undo: StoredEntry[]; redo: StoredEntry[] } | undefined = await get(workspaceKey(id, "history"), store);
+      if (history) {
+        await set(workspaceKey(id, "history"), { undo: await migrateEntries(history.undo), redo: await migrateEntries(history.redo) }, store);
+      }
+    }
+  },
+
+  // 6 -> 7: input images in undo history snapshots moved from Blobs into image records
+  async (store) => {
+    type StoredMessage = { images: { blob: Blob; mimeType: string; annotation?: unknown }[] };
+    type StoredEntry = { state: { messages: StoredMessage[] } };
+    const migrateEntries = async (entries: StoredEntry[]) => {
+      const migrated = [];
+      for (const entry of entries) {
+        const messages = [];
+        for (const message of entry.state.messages) {
+          const images = [];
+          for (const { blob, mimeType, annotation } of message.images) images.push({ imageId: await putImage(store, blob), mimeType, annotation });
+          messages.push({ ...message, images });
+        }
+        migrated.push({ ...entry, state: { ...entry.state, messages } });
+      }
+      return migrated;
+    };
+
+    const workspaces: { id: string }[] = (await get("workspaces", store)) ?? [{ id: DEFAULT_WORKSPACE_ID }];
+    for (const { id } of workspaces) {
+      const history: { undo: StoredEntry[]; redo: StoredEntry[] } | undefined = await get(workspaceKey(id, "history"), store);
+      if (history) {
+        await set(workspaceKey(id, "history"), { undo: await migrateEntries(history.undo), redo: await migrateEntries(history.redo) }, store);
+      }
+    }
+  },
+];
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { parsePipeline, parseTemplate } from "./template-schema";
+
+const IMAGE = { dataUrl: "data:image/png;base64,AAAA" };
+
+describe("parseTemplate", () => {
+  it("accepts a template with metadata, variables, settings and steps", () => {
+    const template = parseTemplate({
+      name: "Lamp",
+      description: "Lamp ideas",
+      author: "SemCAD",
+      version: "1.0",
+      modality: "text",
+      tags: ["furniture"],
+      settings: { textModel: "gemini-2.5-flash", config: { temperature: 1 } },
+      messages: [
+        { role: "system", text: "You design lamps." },
+        { role: "user", text: "A {{style}} lamp", images: [IMAGE] },
+      ],
+      variables: [{ name: "style", default: "modern" }],
+      steps: [{ id: "ideas", modality: "text", prompt: "List ideas" }],
+    });
+
+    expect(template.name).toBe("Lamp");
+    expect(template.messages).toHaveLength(2);
+    expect(template.variables).toEqual([{ name: "style", default: "modern" }]);
+    expect(template.steps).toEqual([{ id: "ideas", modality: "text", prompt: "List ideas" }]);
+  });
+
+  it("defaults a message's image to null", () => {
+    const template = parseTemplate({ messages: [{ role: "user", text: "Hello" }] });
+
+    expect(template.messages[0].image).toBeNull();
+  });
+
+  it.each([
+    [null, "Template must be a JSON object."],
+    [{}, "Template must have a messages array."],
+    [{ messages: [{ role: "assistant", text: "" }] }, "messages[0].role must be one of system, user, model."],
+    [{ messages: [{ role: "user" }] }, "messages[0].text must be a string."],
+    [{ messages: [{ role: "user", text: "", image: { dataUrl: "https://example.com/a.png" } }] }, "messages[0].image must be null or an object"],
+    [{ messages: [{ role: "user", text: "", images: [IMAGE, "a.png"] }] }, "messages[0].images must be an array"],
+    [{ messages: [], variables: {} }, "Template variables must be an array."],
+    [{ messages: [], variables: [{ name: "a b" }] }, "variables[0].name must contain only"],
+    [{ messages: [], variables: [{ name: "a", default: 1 }] }, "variables[0].default must be a string."],
+    [{ messages: [], responseSchema: "object" }, "Template responseSchema must be a JSON Schema object."],
+    [{ messages: [], author: 1 }, "Template author must be a string."],
+    [{ messages: [], modality: "video" }, "Template modality must be one of image, text."],
+    [{ messages: [], tags: ["a", 1] }, "Template tags must be an array of strings."],
+    [{ messages: [], settings: { imageModel: 1 } }, "settings.imageModel must be a string."],
+    [{ messages: [], settings: { config: [] } }, "settings.config must be an object."],
+    [{ messages: [], steps: {} }, "steps must be an array of steps."],
+  ])("rejects %j", (value, message) => {
+    expect(() => parseTemplate(value)).toThrow(message);
+  });
+});
+
+describe("parsePipeline", () => {
+  it("accepts steps that refer to earlier steps", () => {
+    const steps = [
+      { id: "ideas", modality: "text", prompt: "List ideas", responseSchema: { type: "array" } },
+      { id: "render", modality: "image", prompt: "Render {{item}}", forEach: "ideas" },
+      { id: "refine", modality: "image", prompt: "Refine", images: ["render"] },
+    ];
+
+    expect(parsePipeline(steps)).toEqual(steps);
+  });
+
+  it.each([
+    [{}, "pipeline must be an array of steps."],
+    [["ideas"], "pipeline[0] must be an object."],
+    [[{ id: "two words", modality: "text", prompt: "" }], "pipeline[0].id must contain only"],
+    [
+      [
+        { id: "a", modality: "text", prompt: "" },
+        { id: "a", modality: "text", prompt: "" },
+      ],
+      'pipeline[1].id "a" is used by an earlier step.',
+    ],
+    [[{ id: "a", modality: "audio", prompt: "" }], "pipeline[0].modality must be one of image, text."],
+    [[{ id: "a", modality: "text" }], "pipeline[0].prompt must be a string."],
+    [[{ id: "a", modality: "text", prompt: "", forEach: "a" }], "pipeline[0].forEach must be the id of an earlier step."],
+    [
+      [
+        { id: "a", modality: "text", prompt: "" },
+        { id: "b", modality: "image", prompt: "", images: ["a"] },
+      ],
+      "pipeline[1].images must list ids of earlier image steps.",
+    ],
+    [[{ id: "a", modality: "text", prompt: "", responseSchema: [] }], "pipeline[0].responseSchema must be a JSON Schema object."],
+  ])("rejects %j", (value, message) => {
+    expect(() => parsePipeline(value)).toThrow(message);
+  });
+
+  it("names the steps by the given path in errors", () => {
+    expect(() => parsePipeline([{}], "steps")).toThrow("steps[0].id");
+  });
+});
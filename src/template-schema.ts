@@ -0,0 +1,121 @@
+import type { PipelineStep, Template, TemplateMessage, TemplateVariable } from "./types";
+
+const ROLES = ["system", "user", "model"];
+const MODALITIES = ["image", "text"];
+
+/**
+ * Validates an unknown value (e.g. parsed from an imported .json file) against the Template type.
+ * @param {unknown} value
+ * @returns {Template} The value, typed as a Template.
+ * @throws {Error} Describing the first field that does not match.
+ */
+export function parseTemplate(value: unknown): Template {
+  if (!isRecord(value)) throw new Error("Template must be a JSON object.");
+  if (!Array.isArray(value.messages)) throw new Error("Template must have a messages array.");
+
+  const messages = value.messages.map((message, index) => parseTemplateMessage(message, `messages[${index}]`));
+
+  if (value.variables !== undefined && !Array.isArray(value.variables)) throw new Error("Template variables must be an array.");
+  const variables = value.variables?.map((variable, index) => parseTemplateVariable(variable, `variables[${index}]`));
+
+  if (value.responseSchema !== undefined && !isRecord(value.responseSchema)) throw new Error("Template responseSchema must be a JSON Schema object.");
+
+  const steps = value.steps === undefined ? undefined : parsePipeline(value.steps, "steps");
+
+  for (const field of ["name", "description", "author", "version", "thumbnail"]) {
+    if (value[field] !== undefined && typeof value[field] !== "string") throw new Error(`Template ${field} must be a string.`);
+  }
+  if (value.modality !== undefined && !MODALITIES.includes(value.modality as string)) {
+    throw new Error(`Template modality must be one of ${MODALITIES.join(", ")}.`);
+  }
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || !value.tags.every((tag) => typeof tag === "string"))) {
+    throw new Error("Template tags must be an array of strings.");
+  }
+  if (value.settings !== undefined) parseTemplateSettings(value.settings, "settings");
+
+  return { ...value, messages, variables, steps } as Template;
+}
+
+/**
+ * Validates pipeline steps, including that forEach and images only refer to earlier steps.
+ * @param {unknown} value
+ * @param {string} [path] Location of the steps, used in error messages
+ * @returns {PipelineStep[]}
+ * @throws {Error} Describing the first field that does not match.
+ */
+export function parsePipeline(value: unknown, path = "pipeline"): PipelineStep[] {
+  if (!Array.isArray(value)) throw new Error(`${path} must be an array of steps.`);
+
+  const steps: PipelineStep[] = [];
+  value.forEach((step, index) => {
+    const stepPath = `${path}[${index}]`;
+    if (!isRecord(step)) throw new Error(`${stepPath} must be an object.`);
+    if (typeof step.id !== "string" || !/^[\w-]+$/.test(step.id)) {
+      throw new Error(`${stepPath}.id must contain only letters, digits, "_" or "-".`);
+    }
+    if (steps.some((earlier) => earlier.id === step.id)) throw new Error(`${stepPath}.id "${step.id}" is used by an earlier step.`);
+    if (typeof step.modality !== "string" || !MODALITIES.includes(step.modality)) {
+      throw new Error(`${stepPath}.modality must be one of ${MODALITIES.join(", ")}.`);
+    }
+    if (typeof step.prompt !== "string") throw new Error(`${stepPath}.prompt must be a string.`);
+
+    const isEarlierStep = (id: unknown) => steps.some((earlier) => earlier.id === id);
+    if (step.forEach !== undefined && !isEarlierStep(step.forEach)) throw new Error(`${stepPath}.forEach must be the id of an earlier step.`);
+    if (step.images !== undefined) {
+      const isEarlierImageStep = (id: unknown) => steps.some((earlier) => earlier.id === id && earlier.modality === "image");
+      if (!Array.isArray(step.images) || !step.images.every(isEarlierImageStep)) {
+        throw new Error(`${stepPath}.images must list ids of earlier image steps.`);
+      }
+    }
+    if (step.responseSchema !== undefined && !isRecord(step.responseSchema))
+      throw new Error(`${stepPath}.responseSchema must be a JSON Schema object.`);
+
+    steps.push(step as unknown as PipelineStep);
+  });
+  return steps;
+}
+
+function parseTemplateMessage(value: unknown, path: string): TemplateMessage {
+  if (!isRecord(value)) throw new Error(`${path} must be an object.`);
+  if (typeof value.role !== "string" || !ROLES.includes(value.role)) {
+    throw new Error(`${path}.role must be one of ${ROLES.join(", ")}.`);
+  }
+  if (typeof value.text !== "string") throw new Error(`${path}.text must be a string.`);
+
+  const image = value.image ?? null;
+  if (image !== null && !isImageData(image)) {
+    throw new Error(`${path}.image must be null or an object with an image dataUrl.`);
+  }
+  if (value.images !== undefined && (!Array.isArray(value.images) || !value.images.every(isImageData))) {
+    throw new Error(`${path}.images must be an array of objects with an image dataUrl.`);
+  }
+
+  return { ...value, image } as unknown as TemplateMessage;
+}
+
+function parseTemplateVariable(value: unknown, path: string): TemplateVariable {
+  if (!isRecord(value)) throw new Error(`${path} must be an object.`);
+  if (typeof value.name !== "string" || !/^[\w.-]+$/.test(value.name)) {
+    throw new Error(`${path}.name must contain only letters, digits, "_", "." or "-".`);
+  }
+  if (value.default !== undefined && typeof value.default !== "string") throw new Error(`${path}.default must be a string.`);
+  if (value.description !== undefined && typeof value.description !== "string") throw new Error(`${path}.description must be a string.`);
+
+  return value as unknown as TemplateVariable;
+}
+
+function parseTemplateSettings(value: unknown, path: string) {
+  if (!isRecord(value)) throw new Error(`${path} must be an object.`);
+  for (const field of ["imageModel", "textModel"]) {
+    if (value[field] !== undefined && typeof value[field] !== "string") throw new Error(`${path}.${field} must be a string.`);
+  }
+  if (value.config !== undefined && !isRecord(value.config)) throw new Error(`${path}.config must be an object.`);
+}
+
+function isImageData(value: unknown): boolean {
+  return isRecord(value) && typeof value.dataUrl === "string" && value.dataUrl.startsWith("data:image/");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,40 @@
+import type { TemplateVariable } from "./types";
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Lists the distinct variable names used as {{placeholders}} across the given texts, in order of first use.
+ * @param {string[]} texts
+ * @returns {string[]}
+ */
+export function findVariables(texts: string[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Replaces {{placeholders}} with their values. Placeholders without a value are left as-is so they stay visible in the output.
+ * @param {string} text
+ * @param {Record<string, string>} values
+ * @returns {string}
+ */
+export function substituteVariables(text: string, values: Record<string, string>): string {
+  return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Merges declared variables with the ones found in the texts, so undeclared placeholders still get a form field.
+ * @param {TemplateVariable[]} declared
+ * @param {string[]} texts
+ * @returns {TemplateVariable[]}
+ */
+export function resolveVariables(declared: TemplateVariable[], texts: string[]): TemplateVariable[] {
+  const found = findVariables(texts);
+  const undeclared = found.filter((name) => !declared.some((variable) => variable.name === name));
+  return [...declared.filter((variable) => found.includes(variable.name)), ...undeclared.map((name) => ({ name }))];
+}
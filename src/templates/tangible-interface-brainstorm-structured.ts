@@ -0,0 +1,58 @@
+import type { Template } from "../types";
+import { concepts } from "./tangible-interface-brainstorm";
+
+export const template: Template = {
+  name: "Tangible Interface Brainstorm (structured)",
+  description: "The Tangible Interface Brainstorm as JSON: a connection and idea per concept, plus a synthesis.",
+  author: "SemCAD",
+  version: "1.0",
+  modality: "text",
+  tags: ["brainstorm", "tangible interface", "json"],
+  messages: [
+    {
+      role: "system",
+      text: `You are a creative assistant. Analyze the object provided by the user and help user discover connections between the object and any of the following concepts:
+
+${concepts}
+
+<response>
+Respond with one entry per concept, each with one sentence for the object's connection to the concept and one creative idea based on that connection.
+In the end, suggest one idea that intersects all three concepts and inspired by the object.
+</response>
+        `.trim(),
+
+      image: null,
+    },
+    {
+      role: "user",
+      text: `Here is an object: {{object}}.
+Help me establish connections between this object and the concepts of Tangible Interface, TeleAbsence, and Generative AI.`.trim(),
+      image: null,
+    },
+  ],
+  variables: [
+    {
+      name: "object",
+      description: "The object to analyze, e.g. a short description or name",
+    },
+  ],
+  responseSchema: {
+    type: "object",
+    properties: {
+      connections: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            concept: { type: "string", enum: ["Tangible interface", "TeleAbsence", "Generative AI"] },
+            connection: { type: "string", description: "One sentence on how the object relates to the concept" },
+            idea: { type: "string", description: "A creative idea based on the connection" },
+          },
+          required: ["concept", "connection", "idea"],
+        },
+      },
+      synthesis: { type: "string", description: "One idea that intersects all three concepts, inspired by the object" },
+    },
+    required: ["connections", "synthesis"],
+  },
+};
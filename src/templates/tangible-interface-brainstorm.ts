@@ -1,12 +1,7 @@
 import type { Template } from "../types";
 
-export const template: Template = {
-  messages: [
-    {
-      role: "system",
-      text: `You are a creative assistant. Analyze the object provided by the user and help user discover connections between the object and any of the following concepts:
-
-<concepts>
+/** Background on the three concepts, shared with the structured variant of this template */
+export const concepts = `<concepts>
 ## Concept: Tangible interface
 The concept of the Tangible User Interface (TUI) is defined by its goal to reconcile human interaction with the physical world (the land of atoms) and the digital world (the sea of bits). The fundamental idea is giving physical form to digital information and computation, often achieved by coupling digital bits with everyday physical objects or architectural surfaces. These physical forms, referred to as "tangibles," serve a dual role, functioning simultaneously as external representations of the digital data and as mechanisms for interactive control. This design leverages human dexterity and haptic interaction skills, allowing users to directly grasp and manipulate digital information with their hands and bodies, offering an alternative to the remote control mechanisms characteristic of Graphical User Interfaces (GUIs).
 
@@ -15,7 +10,21 @@ TeleAbsence is a vision extending the concept of telepresence to encompass conne
 
 ## Concept: Generative AI
 Generative Artificial Intelligence (GenAI) refers to deep learning models capable of creating text, images, or other types of content that resemble the data they were trained on. This technology, considered a game changer in AI applications, operates by learning patterns from vast quantities of existing data, which can include writings, photos, paintings, and social media posts, to generate new and innovative outputs. Characteristics of GenAI systems include their ability to produce outputs—such as images, texts, or other content—in response to a user’s textual or other prompts, generating human-like text that replicates nuances like syntax and tone, and actively participating in processes like ideation, visual conceptualization, and decision-making. Furthermore, GenAI systems introduce elements of surprise, novelty, and ambiguity into creative workflows, and they are classified as general-purpose AI.
-</concepts>
+</concepts>`;
+
+export const template: Template = {
+  name: "Tangible Interface Brainstorm",
+  description: "Connects an object to Tangible Interface, TeleAbsence and Generative AI, with an idea for each and one that combines all three.",
+  author: "SemCAD",
+  version: "1.0",
+  modality: "text",
+  tags: ["brainstorm", "tangible interface"],
+  messages: [
+    {
+      role: "system",
+      text: `You are a creative assistant. Analyze the object provided by the user and help user discover connections between the object and any of the following concepts:
+
+${concepts}
 
 <response>
 Respond in plaintext format, no markdown syntax but ok to have whitespace.
@@ -28,9 +37,15 @@ In the end, suggest one idea that intersects all three concepts and inspired by
     },
     {
       role: "user",
-      text: `Here is an object: [PLACEHOLDER].
+      text: `Here is an object: {{object}}.
 Help me establish connections between this object and the concepts of Tangible Interface, TeleAbsence, and Generative AI. Suggest a creative idea based on the connection under each concept.`.trim(),
       image: null,
     },
   ],
+  variables: [
+    {
+      name: "object",
+      description: "The object to analyze, e.g. a short description or name",
+    },
+  ],
 };
@@ -0,0 +1,56 @@
+import type { Template } from "../types";
+import { concepts } from "./tangible-interface-brainstorm";
+
+export const template: Template = {
+  name: "Tangible Interface Ideas to Renders (pipeline)",
+  description: "Brainstorms tangible interface ideas from a photo of an object, then renders each idea using the photo as a reference.",
+  author: "SemCAD",
+  version: "1.0",
+  tags: ["brainstorm", "tangible interface", "pipeline", "render"],
+  messages: [
+    {
+      role: "system",
+      text: `You are a creative assistant who designs interfaces around everyday objects, drawing on the following concepts:
+
+${concepts}`.trim(),
+      image: null,
+    },
+    {
+      role: "user",
+      text: `Here is a photo of an object: {{object}}.`,
+      image: null,
+    },
+  ],
+  variables: [
+    {
+      name: "object",
+      description: "The object in the photo, e.g. a short description or name. Attach the photo to the message item.",
+    },
+    {
+      name: "count",
+      description: "How many ideas to brainstorm and render",
+      default: "3",
+    },
+  ],
+  steps: [
+    {
+      id: "ideas",
+      modality: "text",
+      prompt: `Suggest {{count}} tangible interface ideas based on this object, each connecting it to Tangible Interface, TeleAbsence or Generative AI.
+Describe each idea in one or two sentences, focusing on what it looks like and how it is used.`,
+      responseSchema: {
+        type: "object",
+        properties: {
+          ideas: { type: "array", items: { type: "string", description: "One idea, described visually" } },
+        },
+        required: ["ideas"],
+      },
+    },
+    {
+      id: "render",
+      modality: "image",
+      forEach: "ideas",
+      prompt: `Using the photo as a reference for the object, render this idea as a product photo: {{item}}`,
+    },
+  ],
+};
@@ -0,0 +1,44 @@
+import type { GenerationRequest, TokenUsage } from "./providers";
+
+/** Rough average for English text across current tokenizers */
+const CHARS_PER_TOKEN = 4;
+/** What Gemini bills for an image up to 384px; larger images are billed per tile, so this undercounts them */
+const TOKENS_PER_IMAGE = 258;
+
+export interface TokenEstimate {
+  tokens: number;
+  images: number;
+}
+
+/**
+ * Approximates the prompt tokens of a request without calling the vendor, e.g. when offline or for providers without a
+ * count endpoint: text by length, images at a flat rate.
+ * @param {GenerationRequest} request
+ * @returns {TokenEstimate}
+ */
+export function estimateTokens(request: GenerationRequest): TokenEstimate {
+  const parts = request.contents.flatMap((turn) => turn.parts);
+  const images = parts.filter((part) => part.inlineData).length;
+  const characters = [request.systemInstruction ?? "", ...parts.map((part) => part.text ?? "")].reduce((sum, text) => sum + text.length, 0);
+  return { tokens: estimateTextTokens(characters) + images * TOKENS_PER_IMAGE, images };
+}
+
+/**
+ * Usage to record for a response that came without any, such as from servers that do not report it.
+ * @param {GenerationRequest} request
+ * @param {string} outputText
+ * @returns {TokenUsage} Marked as estimated; generated images are not counted.
+ */
+export function estimateUsage(request: GenerationRequest, outputText: string): TokenUsage {
+  const promptTokens = estimateTokens(request).tokens;
+  const outputTokens = estimateTextTokens(outputText.length);
+  return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens, estimated: true };
+}
+
+/**
+ * @param {number} characters
+ * @returns {number} Approximate tokens for text of this length.
+ */
+export function estimateTextTokens(characters: number): number {
+  return Math.ceil(characters / CHARS_PER_TOKEN);
+}
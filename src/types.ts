@@ -1,13 +1,275 @@
+import type { GenerationErrorKind } from "./errors";
+import type { JsonSchema, StructuredResult } from "./json-schema";
+import type { GenerationConfig, Modality, SafetyRating, TokenUsage } from "./providers";
+
 export interface Template {
+  /** Shown in the template select and gallery; defaults to the name the template is saved under */
+  name?: string;
+  description?: string;
+  author?: string;
+  version?: string;
+  /** The output the template is written for; loading it makes that generate action the primary one */
+  modality?: Modality;
+  /** Applied over the current model settings when the template is loaded */
+  settings?: TemplateSettings;
+  tags?: string[];
+  /** Preview image URL (usually a data URL); the gallery falls back to the first message image */
+  thumbnail?: string;
   messages: TemplateMessage[];
+  variables?: TemplateVariable[];
+  /** When set, text generation asks for JSON matching this schema */
+  responseSchema?: JsonSchema;
+  /** Generations run in order by "Run pipeline", each building on the ones before */
+  steps?: PipelineStep[];
+}
+
+/** One generation in a template pipeline. It sends the workbench message items followed by its own prompt. */
+export interface PipelineStep {
+  /** Later steps reference this step's output text as {{steps.<id>}} */
+  id: string;
+  modality: Modality;
+  /** May use {{variables}}, {{steps.<id>}} of earlier steps and, in forEach steps, {{item}} */
+  prompt: string;
+  /** Runs once per item in the output of this earlier step: the elements of a JSON array, or else its non-empty lines */
+  forEach?: string;
+  /** Earlier image steps whose images are sent with the prompt */
+  images?: string[];
+  /** Text steps only: ask for JSON matching this schema */
+  responseSchema?: JsonSchema;
+}
+
+export type TemplateSettings = Partial<Pick<GenerationSettings, "imageModel" | "textModel">> & { config?: GenerationConfig };
+
+export interface TemplateVariable {
+  /** Referenced in message text as {{name}} */
+  name: string;
+  default?: string;
+  description?: string;
 }
 
 export interface TemplateMessage {
-  role: "system" | "user" | "model";
+  role: "system" | MessageRole;
   text: string;
+  /** The first image, for templates written before messages held several */
   image: { dataUrl: string } | null;
+  /** All images of the message; takes precedence over `image` when present */
+  images?: { dataUrl: string }[];
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
 }
 
 export interface LoadableTemplate {
   template: Template;
 }
+
+export type MessageRole = "user" | "model";
+
+export interface MessageImage {
+  blob: Blob;
+  mimeType: string;
+  dataUrl: string;
+  /** Marks drawn over the image, which are kept separate from the image itself */
+  annotation?: ImageAnnotation;
+  /** Key of the image record holding `blob`, set once the image is first recorded in provenance. A new blob gets a new record. */
+  imageId?: string;
+}
+
+/** A message image referred to by its image record (see storage.ts), so snapshots of the same image share one record */
+export interface StoredImage {
+  imageId: string;
+  mimeType: string;
+  annotation?: ImageAnnotation;
+}
+
+/** A message item as kept in output provenance, with its images referred to by image record */
+export type RecordedMessage = Omit<MessageItem, "images"> & { images: StoredImage[] };
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** A mark on an input image, in pixels of the image */
+export type AnnotationShape =
+  | { kind: "stroke"; color: string; points: Point[] }
+  | { kind: "arrow"; color: string; from: Point; to: Point }
+  | { kind: "rect"; color: string; from: Point; to: Point }
+  | { kind: "text"; color: string; at: Point; text: string };
+
+export type AnnotationTool = AnnotationShape["kind"];
+
+export interface ImageAnnotation {
+  shapes: AnnotationShape[];
+  /**
+   * "composite" sends the image with the marks drawn on it. "mask" sends the original image, then a black and white mask
+   * of the marked region with an instruction to edit only that region.
+   */
+  mode: "composite" | "mask";
+}
+
+export interface MessageItem {
+  id: string;
+  role: MessageRole;
+  text: string;
+  /** Sent after the text, in order */
+  images: MessageImage[];
+  /** Set when the item was created from a generated output */
+  sourceOutputId?: string;
+}
+
+/** Model choice and generation config from the settings panel. Empty model names use the provider's defaults. */
+export interface GenerationSettings {
+  imageModel: string;
+  textModel: string;
+  config: GenerationConfig;
+  /** How many times transient failures (quota, network) are retried */
+  maxRetries: number;
+  /** Applied to pasted and uploaded input images; absent in settings saved before it existed */
+  imagePreprocessing?: ImagePreprocessing;
+}
+
+/** How input images are prepared before they are stored and sent */
+export interface ImagePreprocessing {
+  /** Longest side in pixels; 0 keeps the full size */
+  maxDimension: number;
+  /** "original" keeps the pasted format where the browser can encode it */
+  format: "original" | "image/jpeg" | "image/png" | "image/webp";
+  /** Encoder quality from 0 to 1, for JPEG and WebP */
+  quality: number;
+}
+
+export interface OutputError {
+  kind: GenerationErrorKind;
+  message: string;
+  status?: number;
+  finishReason?: string;
+  safetyRatings?: SafetyRating[];
+  /** Number of attempts made, including retries */
+  attempts?: number;
+}
+
+export interface OutputItem {
+  id: string;
+  /** Key of the generated image's Blob record, see storage.ts */
+  imageId: string | null;
+  /** Display URL: a runtime object URL for stored images, or the placeholder */
+  imageUrl: string | null;
+  text: string;
+  loading: boolean;
+  /** Shared by the variants of one batch */
+  groupId?: string;
+  /** Set on the cells of a comparison grid, which are shown there instead of in the output list */
+  comparisonId?: string;
+  /** Set when the generation failed */
+  error?: OutputError;
+  /** Set when the generation stopped early: cancelled by the user, or cut off by a page reload */
+  status?: "cancelled" | "interrupted";
+  /** The earlier output whose result was used as input for this one */
+  derivedFrom?: string;
+  /** Set on the outputs of a pipeline run, which are shown together as a tree linked by derivedFrom */
+  pipeline?: { runId: string; stepId: string; item?: string };
+  provenance?: OutputProvenance;
+  /** 1 to 5 stars; unrated when absent */
+  rating?: number;
+  tags?: string[];
+  favorite?: boolean;
+  notes?: string;
+  /** Show the text as returned instead of rendered as Markdown */
+  rawText?: boolean;
+  /** Set for text outputs generated with a response schema; `text` keeps the raw JSON */
+  structured?: StructuredResult;
+  /** Token counts of the last attempt, as reported with the response */
+  usage?: TokenUsage;
+}
+
+/** Tokens and images used by a workspace's generations, including retries and failed attempts, since the last reset */
+export interface UsageTotal {
+  tokens: number;
+  images: number;
+  /** When counting started */
+  since: number;
+  /** Token limit; 0 for none. New generations are blocked once the total reaches it. */
+  budget: number;
+}
+
+/** Gallery toolbar state. Empty fields do not filter. */
+export interface GalleryFilter {
+  search: string;
+  tag: string;
+  minRating: number;
+  modality: Modality | "";
+  /** Only outputs created within this many days */
+  days: number;
+  favoritesOnly: boolean;
+}
+
+/** One column of a comparison. Empty fields use the Setup, Model settings and System message values. */
+export interface CompareVariant {
+  id: string;
+  label: string;
+  providerId: string;
+  model: string;
+  temperature?: number;
+  topP?: number;
+  systemMessage: string;
+}
+
+/** The same inputs run through several variants, shown as a grid of outputs */
+export interface Comparison {
+  id: string;
+  modality: Modality;
+  timestamp: number;
+  variants: CompareVariant[];
+  /** Output ids, one row per run, one column per variant */
+  rows: string[][];
+  /** Preferred variant id, by row index */
+  votes: Record<number, string>;
+}
+
+/** The editable part of the workbench, as kept in undo history. Images are referred to by image record, like in provenance. */
+export interface WorkbenchState {
+  systemMessage: string;
+  /** Response schema editor text, which may not be valid JSON */
+  responseSchema: string;
+  /** Pipeline editor text; absent in history saved before pipelines existed */
+  pipeline?: string;
+  messages: RecordedMessage[];
+  variables: TemplateVariable[];
+  variableValues: Record<string, string>;
+  /** Only snapshotted by changes that replace the settings, such as loading a template */
+  generationSettings?: GenerationSettings;
+  primaryModality?: Modality | null;
+}
+
+export interface HistoryEntry {
+  /** Describes the change, e.g. "Delete all message items" */
+  label: string;
+  /** The workbench before the change on the undo stack, after it on the redo stack */
+  state: WorkbenchState;
+  /** Outputs removed by the change, at their former positions. Undo puts them back, redo removes them again */
+  deletedOutputs?: { index: number; output: OutputItem }[];
+  /** Consecutive changes with the same key, such as typing in one field, are undone as one */
+  coalesceKey?: string;
+}
+
+/** The editor state a generation was started from. Images are kept as Blobs, without display data URLs. */
+export interface InputSnapshot {
+  systemMessage: string;
+  messages: (Omit<MessageItem, "images"> & { images: Omit<MessageImage, "dataUrl">[] })[];
+  variableValues: Record<string, string>;
+  responseSchema?: JsonSchema;
+}
+
+export interface OutputProvenance extends Omit<InputSnapshot, "messages"> {
+  messages: RecordedMessage[];
+  timestamp: number;
+  provider?: string;
+  modality?: Modality;
+  model?: string;
+  config?: GenerationConfig;
+  /** The request as sent, with inline image data elided */
+  request?: unknown;
+}